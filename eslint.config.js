@@ -18,6 +18,13 @@ export default [
         sourceType: 'module',
         project: ['./tsconfig.json', './tsconfig.dev.json'],
       },
+      // Timers used for batching audit records and pushing metrics
+      globals: {
+        setTimeout: 'readonly',
+        clearTimeout: 'readonly',
+        setInterval: 'readonly',
+        clearInterval: 'readonly',
+      },
     },
     plugins: {
       '@typescript-eslint': tseslint,
@@ -115,9 +122,9 @@ export default [
     },
   },
 
-  // Shield debug logging
+  // Shield debug logging and the console logger
   {
-    files: ['**/shield.ts'],
+    files: ['**/shield.ts', '**/logger.ts'],
     rules: {
       'no-console': 'off',
       'no-undef': 'off',
@@ -0,0 +1,245 @@
+import type {
+  AuditDecision,
+  AuditLog,
+  AuditOptions,
+  AuditRecord,
+  AuditSink,
+  Context,
+  MemoryAuditSink,
+  ShieldHook,
+  ShieldHookEvent,
+} from './types.js';
+import { formatRule, isAllowed, toDenialError } from './rule.js';
+import { consoleLogger } from './logger.js';
+import type { Writable } from 'node:stream';
+
+/**
+ * Reads a string property of an object, e.g. the user id of a context
+ */
+function readString(value: unknown, ...keys: string[]): string | undefined {
+  let current = value;
+  for (const key of keys) {
+    if (typeof current !== 'object' || current === null) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return typeof current === 'string' ? current : undefined;
+}
+
+/**
+ * Creates an audit log writing each authorization decision to a sink, in batches.
+ * Writes are serialized, so records reach the sink in the order they were made.
+ *
+ * @example
+ * ```typescript
+ * const audit = createAuditLog<Context>({
+ *   sink: jsonLinesSink('./audit.log'),
+ *   include: (record) => record.decision !== 'allowed' || record.path.startsWith('admin.'),
+ * });
+ *
+ * const permissions = shield(rules, { ...audit.hooks, awaitHooks: true });
+ * ```
+ */
+export function createAuditLog<TContext extends Context = Context>(
+  options: AuditOptions<TContext>
+): AuditLog<TContext> {
+  const {
+    sink,
+    actor = (ctx: TContext) => readString(ctx, 'user', 'id'),
+    requestId = (ctx: TContext) => readString(ctx, 'requestId'),
+    include = () => true,
+    batchSize = 100,
+    flushIntervalMs = 1000,
+    maxBufferSize = 10 * batchSize,
+    logger = consoleLogger,
+    onSinkError = (error: unknown, records: readonly AuditRecord[]) => {
+      logger.error(
+        { records: records.length, error },
+        `Failed to write ${records.length} audit records`
+      );
+    },
+  } = options;
+
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error(`Invalid batchSize: ${batchSize}`);
+  }
+  if (!Number.isInteger(maxBufferSize) || maxBufferSize < 1) {
+    throw new Error(`Invalid maxBufferSize: ${maxBufferSize}`);
+  }
+
+  let buffer: AuditRecord[] = [];
+  // Records not yet written, whether buffered or queued for the sink
+  let pending = 0;
+  let writing: Promise<void> = Promise.resolve();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  /**
+   * Queues the buffered records for writing after the batches already queued
+   */
+  const flush = (): Promise<void> => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+
+    while (buffer.length > 0) {
+      const batch = buffer.slice(0, batchSize);
+      buffer = buffer.slice(batchSize);
+      writing = writing.then(async () => {
+        try {
+          await sink.write(batch);
+        } catch (error) {
+          onSinkError(error, batch);
+        } finally {
+          pending -= batch.length;
+        }
+      });
+    }
+
+    return writing;
+  };
+
+  const record = async (event: ShieldHookEvent<TContext>, decision: AuditDecision) => {
+    const entry: AuditRecord = Object.freeze({
+      timestamp: new Date().toISOString(),
+      requestId: requestId(event.ctx),
+      actor: actor(event.ctx),
+      path: event.path.join('.'),
+      phase: event.phase,
+      decision,
+      reason: isAllowed(event.result) ? undefined : toDenialError(event.result).message,
+      rule: formatRule(event.rule),
+      durationMs: event.durationMs,
+    });
+
+    if (!include(entry)) {
+      return;
+    }
+
+    buffer.push(entry);
+    pending++;
+
+    if (pending >= maxBufferSize) {
+      // Backpressure: wait until the sink has written every pending record
+      await flush();
+    } else if (buffer.length >= batchSize) {
+      void flush();
+    } else if (!timer) {
+      timer = setTimeout(() => void flush(), flushIntervalMs);
+      // Pending records must not keep the process alive; outside Node timers are plain ids
+      if (typeof timer === 'object') {
+        timer.unref();
+      }
+    }
+  };
+
+  const hook =
+    (decision: AuditDecision): ShieldHook<TContext> =>
+    (event) =>
+      record(event, decision);
+
+  return {
+    hooks: { onAllowed: hook('allowed'), onDenied: hook('denied'), onError: hook('error') },
+    record,
+    flush,
+    close: async () => {
+      await flush();
+      await sink.close?.();
+    },
+  };
+}
+
+/**
+ * Creates an audit sink keeping the last `capacity` records in memory, e.g. for tests
+ * or an admin endpoint showing recent denials
+ */
+export function memorySink(capacity = 1000): MemoryAuditSink {
+  if (!Number.isInteger(capacity) || capacity < 1) {
+    throw new Error(`Invalid capacity: ${capacity}`);
+  }
+
+  const ring: AuditRecord[] = [];
+  // Position of the oldest record once the ring is full
+  let start = 0;
+
+  return {
+    write(records) {
+      for (const entry of records) {
+        if (ring.length < capacity) {
+          ring.push(entry);
+        } else {
+          ring[start] = entry;
+          start = (start + 1) % capacity;
+        }
+      }
+    },
+    records: () => [...ring.slice(start), ...ring.slice(0, start)],
+  };
+}
+
+/**
+ * Opens the destination of a JSON lines sink. `node:fs` is only loaded for file paths,
+ * so this module can be imported outside Node.
+ */
+async function openStream(destination: string | Writable): Promise<Writable> {
+  if (typeof destination !== 'string') {
+    return destination;
+  }
+  const { createWriteStream } = await import('node:fs');
+  return createWriteStream(destination, { flags: 'a' });
+}
+
+/**
+ * Creates an audit sink appending one JSON object per line to a file or stream.
+ * Each batch waits until the stream has processed it, so a slow disk slows down recording.
+ * Once the stream fails, e.g. because the file cannot be opened, every write is rejected.
+ */
+export function jsonLinesSink(destination: string | Writable): AuditSink {
+  const opened = openStream(destination);
+
+  // Stream errors reject writes instead of crashing the process as unhandled 'error' events
+  let streamError: Error | undefined;
+  opened.then(
+    (stream) => {
+      stream.on('error', (error: Error) => {
+        streamError = error;
+      });
+    },
+    (error: unknown) => {
+      streamError = error instanceof Error ? error : new Error(String(error));
+    }
+  );
+
+  return {
+    async write(records) {
+      const stream = await opened;
+      if (streamError) {
+        throw streamError;
+      }
+
+      const lines = records.map((entry) => `${JSON.stringify(entry)}\n`).join('');
+      return new Promise<void>((resolve, reject) => {
+        const onError = (error: Error) => reject(error);
+        stream.once('error', onError);
+        stream.write(lines, (error) => {
+          stream.off('error', onError);
+          if (error) {
+            reject(error);
+          } else {
+            resolve();
+          }
+        });
+      });
+    },
+    async close() {
+      const stream = await opened.catch(() => undefined);
+      // Streams passed in are owned by the caller, and failed streams are already closed
+      if (stream && typeof destination === 'string' && !streamError) {
+        await new Promise<void>((resolve) => {
+          stream.end(resolve);
+        });
+      }
+    },
+  };
+}
@@ -1,21 +1,115 @@
 // Rule constructor and built-in rules
-export { rule, allow, deny, denyWithMessage, allowAll } from './rule.js';
+export {
+  rule,
+  allow,
+  deny,
+  denyWithMessage,
+  allowAll,
+  describeRule,
+  formatRule,
+  isAllowed,
+  RuleDenialError,
+} from './rule.js';
 
 // Logic operators
-export { and, or, not, chain, race } from './operators.js';
+export {
+  and,
+  or,
+  not,
+  requiresAuth,
+  chain,
+  race,
+  any,
+  firstSettled,
+  atLeast,
+  majority,
+  none,
+  xor,
+  AggregateRuleError,
+} from './operators.js';
 
 // Shield middleware
-export { shield, shieldDebug, shieldForORPC, ShieldError } from './shield.js';
+export {
+  shield,
+  shieldDebug,
+  shieldForORPC,
+  assertRulesMatchRouter,
+  describeRules,
+  ShieldError,
+} from './shield.js';
+
+// Output masking
+export { mask } from './mask.js';
+
+// Logging
+export { consoleLogger } from './logger.js';
+
+// Audit logging
+export { createAuditLog, jsonLinesSink, memorySink } from './audit.js';
+
+// Metrics
+export { createMetricsRegistry } from './metrics.js';
+
+// Rule tree compilation and router checks
+export { compileRules } from './tree.js';
+export { checkRulesAgainstRouter } from './router.js';
 
 // Types
 export type {
+  AuditDecision,
+  AuditLog,
+  AuditOptions,
+  AuditRecord,
+  AuditSink,
+  CompiledRules,
+  DecisionCounter,
+  DenialReason,
+  DurationHistogram,
+  FilterMode,
   IRule,
   IRules,
+  IRulesFor,
+  InferProcedureInput,
+  LogFields,
+  MaskFields,
+  MaskMode,
+  MaskOptions,
+  MaskSpec,
+  MemoryAuditSink,
+  MetricSample,
+  MetricsCollector,
+  MetricsOptions,
+  MetricsRegistry,
+  MetricsSnapshot,
   Path,
+  ResolvedRule,
+  RuleCache,
+  RuleCacheMode,
+  RuleDecision,
+  RuleDenialOptions,
+  RuleDescription,
+  RuleMetadata,
+  RuleOptions,
+  RuleParams,
   RuleResolver,
   RuleResult,
+  RuleTreeDescription,
+  RouterMatchOptions,
+  RouterMatchReport,
+  RouterMismatchMode,
+  OperatorOptions,
+  OrOptions,
   ORPCContext,
+  ORPCErrorCode,
   ORPCInput,
   ORPCMiddleware,
+  ShieldErrorOptions,
+  ShieldHook,
+  ShieldHookEvent,
+  ShieldLogger,
   ShieldOptions,
+  ShieldPhase,
+  ShieldSpan,
+  ShieldTracer,
+  ShieldRouter,
 } from './types.js';
@@ -0,0 +1,59 @@
+import type { LogFields, ShieldLogger } from './types.js';
+
+/**
+ * Value replacing redacted input fields in log entries
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Prints a log entry after the `[oRPC Shield]` prefix, followed by its error if any.
+ * Other fields are left out to keep console output readable.
+ */
+function print(write: (...args: unknown[]) => void, fields: LogFields, message: string) {
+  if (fields.error === undefined) {
+    write(`[oRPC Shield] ${message}`);
+  } else {
+    write(`[oRPC Shield] ${message}:`, fields.error);
+  }
+}
+
+/**
+ * Logger printing to the console, used when `ShieldOptions.logger` is not set
+ */
+export const consoleLogger: ShieldLogger = {
+  debug: (fields, message) => print(console.log, fields, message),
+  info: (fields, message) => print(console.info, fields, message),
+  warn: (fields, message) => print(console.warn, fields, message),
+  error: (fields, message) => print(console.error, fields, message),
+};
+
+/**
+ * Replaces the field at `keys` below `value`, starting at key `index`.
+ * Objects on the way are copied, so the input itself is left untouched.
+ */
+function redactPath(value: unknown, keys: string[], index: number): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactPath(item, keys, index));
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  const record = value as Record<string, unknown>;
+  const key = keys[index];
+  if (!Object.prototype.hasOwnProperty.call(record, key)) {
+    return value;
+  }
+
+  const replacement =
+    index === keys.length - 1 ? REDACTED : redactPath(record[key], keys, index + 1);
+  return { ...record, [key]: replacement };
+}
+
+/**
+ * Returns a copy of an input with the fields at the dotted `paths` replaced by `REDACTED`
+ */
+export function redactInput(input: unknown, paths: readonly string[]): unknown {
+  return paths.reduce((value, path) => redactPath(value, path.split('.'), 0), input);
+}
@@ -0,0 +1,182 @@
+import type {
+  Context,
+  IRule,
+  MaskFields,
+  MaskOptions,
+  MaskSpec,
+  MiddlewareResult,
+  ORPCMiddleware,
+  RuleCache,
+} from './types.js';
+import { isAllowed, isRule } from './rule.js';
+import { consoleLogger } from './logger.js';
+
+/**
+ * Output field guarded by a rule, with its path split into keys
+ */
+interface MaskedField<TContext extends Context = Context> {
+  field: string[];
+  rule: IRule<TContext>;
+}
+
+/**
+ * Validates the fields of one procedure and flattens them in declaration order
+ */
+function compileMaskFields<TContext extends Context>(
+  fields: MaskFields<TContext>,
+  path: string[]
+): MaskedField<TContext>[] {
+  const compiled: MaskedField<TContext>[] = [];
+
+  const visit = (tree: MaskFields<TContext>, field: string[]) => {
+    for (const [key, value] of Object.entries(tree)) {
+      const currentField = [...field, ...key.split('.')];
+
+      if (typeof value !== 'object' || (value as unknown) === null) {
+        throw new Error(
+          `Invalid mask rule at path ${[...path, ...currentField].join('.')}: ` +
+            'Expected rule or nested fields object'
+        );
+      }
+
+      if (isRule<TContext>(value)) {
+        compiled.push({ field: currentField, rule: value });
+        continue;
+      }
+
+      visit(value, currentField);
+    }
+  };
+
+  visit(fields, []);
+  return compiled;
+}
+
+/**
+ * Creates middleware hiding output fields the caller may not see.
+ * Each field rule is evaluated with the handler result as `output` and the object
+ * holding the field as `item`; fields whose rule denies or throws are removed or redacted.
+ *
+ * @example
+ * ```typescript
+ * const masking = mask({
+ *   'users.get': { email: isSelfOrAdmin, ssn: isHR },
+ *   'users.list': { 'items.email': isSelfOrAdmin },
+ * });
+ * ```
+ */
+export function mask<TContext extends Context = Context>(
+  spec: MaskSpec<TContext>,
+  options: MaskOptions = {}
+): ORPCMiddleware<TContext> {
+  const {
+    mode = 'remove',
+    redactedValue = '[REDACTED]',
+    debug = false,
+    logger = consoleLogger,
+  } = options;
+
+  const procedures = new Map(
+    Object.entries(spec).map(([path, fields]) => [path, compileMaskFields(fields, path.split('.'))])
+  );
+
+  const middleware: ORPCMiddleware<TContext> = async (
+    options,
+    input,
+    _output
+  ): Promise<MiddlewareResult<TContext>> => {
+    const { context, path, next, signal } = options;
+
+    const fields = procedures.get(path.join('.'));
+    const result = await next({ context });
+    if (!fields) {
+      return result;
+    }
+
+    // Rule results are cached for this invocation, across fields and array items
+    const cache: RuleCache = new Map();
+
+    const canSee = async (field: MaskedField<TContext>, item: unknown) => {
+      try {
+        const ruleResult = await field.rule.resolve({
+          ctx: context,
+          path,
+          input,
+          output: result.output,
+          item,
+          cache,
+          signal,
+        });
+        return isAllowed(ruleResult);
+      } catch (error) {
+        // Fields are hidden when their rule cannot be evaluated
+        if (debug) {
+          const fieldKey = field.field.join('.');
+          logger.error(
+            { path: path.join('.'), field: fieldKey, error },
+            `Error masking ${fieldKey} of ${path.join('.')}`
+          );
+        }
+        return false;
+      }
+    };
+
+    let { output } = result;
+    for (const field of fields) {
+      output = await maskField(output, field, 0, canSee, mode, redactedValue);
+    }
+
+    if (debug && output !== result.output) {
+      logger.debug({ path: path.join('.') }, `Masked output of ${path.join('.')}`);
+    }
+
+    return output === result.output ? result : { ...result, output };
+  };
+
+  return middleware;
+}
+
+/**
+ * Hides one field below `value`, starting at key `index` of its path.
+ * Objects on the way are copied when changed, so the handler result is left untouched.
+ */
+async function maskField<TContext extends Context>(
+  value: unknown,
+  field: MaskedField<TContext>,
+  index: number,
+  canSee: (field: MaskedField<TContext>, item: unknown) => Promise<boolean>,
+  mode: MaskOptions['mode'],
+  redactedValue: unknown
+): Promise<unknown> {
+  if (Array.isArray(value)) {
+    const items = await Promise.all(
+      value.map((item) => maskField(item, field, index, canSee, mode, redactedValue))
+    );
+    return items.every((item, position) => item === value[position]) ? value : items;
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  const record = value as Record<string, unknown>;
+  const key = field.field[index];
+  if (!Object.prototype.hasOwnProperty.call(record, key)) {
+    return value;
+  }
+
+  if (index < field.field.length - 1) {
+    const child = await maskField(record[key], field, index + 1, canSee, mode, redactedValue);
+    return child === record[key] ? value : { ...record, [key]: child };
+  }
+
+  if (await canSee(field, value)) {
+    return value;
+  }
+
+  if (mode === 'redact') {
+    return { ...record, [key]: redactedValue };
+  }
+  const { [key]: _removed, ...rest } = record;
+  return rest;
+}
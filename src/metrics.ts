@@ -0,0 +1,166 @@
+import type {
+  DecisionCounter,
+  DurationHistogram,
+  MetricSample,
+  MetricsOptions,
+  MetricsRegistry,
+  MetricsSnapshot,
+  ShieldPhase,
+} from './types.js';
+import { consoleLogger } from './logger.js';
+
+const DEFAULT_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1];
+
+/**
+ * Duration histogram with per-bucket (non-cumulative) counts
+ */
+interface HistogramState {
+  path: string;
+  rule: string;
+  phase: ShieldPhase;
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Escapes a Prometheus label value
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Renders a Prometheus label set, e.g. `{path="users.list",rule="allow",phase="input"}`
+ */
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+  return `{${pairs.join(',')}}`;
+}
+
+/**
+ * Creates a registry counting authorization decisions and timing rule evaluations per
+ * procedure and rule. Pass it to `shield()` as `metrics` and expose `toPrometheus()` on a
+ * scrape endpoint, or push snapshots to a custom collector.
+ *
+ * @example
+ * ```typescript
+ * const metrics = createMetricsRegistry();
+ * const permissions = shield(rules, { metrics });
+ *
+ * app.get('/metrics', (_req, res) => res.type('text/plain').send(metrics.toPrometheus()));
+ * ```
+ */
+export function createMetricsRegistry(options: MetricsOptions = {}): MetricsRegistry {
+  const { prefix = 'orpc_shield', collector, pushIntervalMs, logger = consoleLogger } = options;
+  const buckets = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+
+  if (pushIntervalMs !== undefined && !(Number.isFinite(pushIntervalMs) && pushIntervalMs > 0)) {
+    throw new Error(`Invalid pushIntervalMs: ${pushIntervalMs}`);
+  }
+
+  const decisions = new Map<string, DecisionCounter>();
+  const durations = new Map<string, HistogramState>();
+
+  const record = ({ path, rule, phase, decision, durationMs }: MetricSample) => {
+    const counterKey = JSON.stringify([path, rule, phase, decision]);
+    const counter = decisions.get(counterKey);
+    if (counter) {
+      counter.count++;
+    } else {
+      decisions.set(counterKey, { path, rule, phase, decision, count: 1 });
+    }
+
+    const histogramKey = JSON.stringify([path, rule, phase]);
+    let histogram = durations.get(histogramKey);
+    if (!histogram) {
+      histogram = { path, rule, phase, counts: buckets.map(() => 0), sum: 0, count: 0 };
+      durations.set(histogramKey, histogram);
+    }
+
+    const seconds = durationMs / 1000;
+    const bucket = buckets.findIndex((le) => seconds <= le);
+    if (bucket !== -1) {
+      histogram.counts[bucket]++;
+    }
+    histogram.sum += seconds;
+    histogram.count++;
+  };
+
+  const snapshot = (): MetricsSnapshot => ({
+    decisions: [...decisions.values()].map((counter) => ({ ...counter })),
+    durations: [...durations.values()].map(
+      ({ path, rule, phase, counts, sum, count }): DurationHistogram => {
+        let cumulative = 0;
+        return {
+          path,
+          rule,
+          phase,
+          buckets: buckets.map((le, index) => ({ le, count: (cumulative += counts[index]) })),
+          sum,
+          count,
+        };
+      }
+    ),
+  });
+
+  const toPrometheus = () => {
+    const current = snapshot();
+    const decisionsName = `${prefix}_decisions_total`;
+    const durationName = `${prefix}_rule_duration_seconds`;
+
+    const lines = [
+      `# HELP ${decisionsName} Authorization decisions by procedure, rule and outcome.`,
+      `# TYPE ${decisionsName} counter`,
+      ...current.decisions.map(
+        ({ path, rule, phase, decision, count }) =>
+          `${decisionsName}${formatLabels({ path, rule, phase, decision })} ${count}`
+      ),
+      `# HELP ${durationName} Time spent evaluating rules, in seconds.`,
+      `# TYPE ${durationName} histogram`,
+      ...current.durations.flatMap(({ path, rule, phase, buckets: counts, sum, count }) => [
+        ...counts.map(
+          ({ le, count: bucketCount }) =>
+            `${durationName}_bucket${formatLabels({ path, rule, phase, le: String(le) })} ${bucketCount}`
+        ),
+        `${durationName}_bucket${formatLabels({ path, rule, phase, le: '+Inf' })} ${count}`,
+        `${durationName}_sum${formatLabels({ path, rule, phase })} ${sum}`,
+        `${durationName}_count${formatLabels({ path, rule, phase })} ${count}`,
+      ]),
+    ];
+
+    return `${lines.join('\n')}\n`;
+  };
+
+  const push = async () => {
+    await collector?.collect(snapshot());
+  };
+
+  let timer: ReturnType<typeof setInterval> | undefined;
+  if (collector && pushIntervalMs !== undefined) {
+    timer = setInterval(() => {
+      push().catch((error: unknown) => {
+        logger.error({ error }, 'Failed to push metrics');
+      });
+    }, pushIntervalMs);
+    // Pushing must not keep the process alive; outside Node timers are plain ids
+    if (typeof timer === 'object') {
+      timer.unref();
+    }
+  }
+
+  return {
+    record,
+    snapshot,
+    toPrometheus,
+    push,
+    reset: () => {
+      decisions.clear();
+      durations.clear();
+    },
+    close: () => {
+      clearInterval(timer);
+      timer = undefined;
+    },
+  };
+}
@@ -1,4 +1,84 @@
-import type { Context, IRule, ORPCInput, Path, RuleResult } from './types.js';
+import type {
+  Context,
+  DenialReason,
+  IRule,
+  ORPCInput,
+  OperatorOptions,
+  OrOptions,
+  RuleDescription,
+  RuleParams,
+  RuleResult,
+} from './types.js';
+import {
+  RuleDenialError,
+  createDescription,
+  describeRule,
+  formatRule,
+  isAllowed,
+  isRule,
+  isRuleFailure,
+  isUnauthenticated,
+  toDenialError,
+  traceRule,
+} from './rule.js';
+
+/**
+ * Arguments accepted by variadic operators: rules, optionally preceded by an options object
+ */
+type OperatorArgs<TContext, TInput, TOptions extends OperatorOptions = OperatorOptions> =
+  | IRule<TContext, TInput>[]
+  | [TOptions, ...IRule<TContext, TInput>[]];
+
+/**
+ * Denial combining the reasons of several rules, returned by `race()` and by `or()`
+ * when created with `{ aggregate: true }`. Nested aggregates are flattened.
+ */
+export class AggregateRuleError extends RuleDenialError {
+  readonly errors: Error[];
+  declare readonly reasons: DenialReason[];
+
+  /**
+   * @param errors - Denial of each rule
+   * @param rules - The denying rules, in the same order, identifying each reason
+   */
+  constructor(errors: Error[], rules: IRule<never, never>[] = []) {
+    const entries = errors.flatMap((error, index): [Error, DenialReason][] => {
+      if (error instanceof AggregateRuleError) {
+        return error.errors.map((inner, innerIndex) => [inner, error.reasons[innerIndex]]);
+      }
+      const rule = index < rules.length ? formatRule(rules[index]) : 'anonymous';
+      return [[error, { rule, message: error.message }]];
+    });
+    const flattened = entries.map(([error]) => error);
+    const reasons = entries.map(([, reason]) => reason);
+    const messages = reasons.map((reason) => reason.message);
+    super(messages.length > 0 ? `All rules failed: ${messages.join('; ')}` : 'All rules failed', {
+      reasons,
+      // Only unauthenticated when no alternative failed for another reason
+      unauthenticated: flattened.length > 0 && flattened.every(isUnauthenticated),
+      failure: flattened.some(isRuleFailure),
+    });
+    this.name = 'AggregateRuleError';
+    this.errors = flattened;
+  }
+}
+
+/**
+ * Combines the denials of rules that all failed, either keeping the first or all of them
+ */
+function combineDenials(
+  denials: RuleResult[],
+  rules: IRule<never, never>[],
+  aggregate: boolean
+): RuleResult {
+  if (aggregate) {
+    return new AggregateRuleError(
+      denials.map((denial) => toDenialError(denial)),
+      rules
+    );
+  }
+  return denials[0] ?? new Error('All rules failed');
+}
 
 /**
  * Base class for logic rules that combine other rules
@@ -6,23 +86,175 @@ import type { Context, IRule, ORPCInput, Path, RuleResult } from './types.js';
 abstract class LogicRule<TContext = Context, TInput = ORPCInput>
   implements IRule<TContext, TInput>
 {
-  constructor(protected rules: IRule<TContext, TInput>[]) {}
+  readonly name?: string;
+  readonly description?: string;
+  readonly tags?: string[];
+
+  /**
+   * Operator name used in descriptions, e.g. `and`
+   */
+  protected abstract readonly type: string;
+
+  private readonly message?: string;
+  private readonly code?: OperatorOptions['code'];
+
+  constructor(
+    protected rules: IRule<TContext, TInput>[],
+    options: OperatorOptions = {}
+  ) {
+    this.name = options.name;
+    this.description = options.description;
+    this.tags = options.tags;
+    this.message = options.message;
+    this.code = options.code;
+  }
+
+  resolve(params: RuleParams<TContext, TInput>): Promise<RuleResult> {
+    return traceRule(`rule ${this.name ?? this.type}`, this, params, () =>
+      this.resolveDenial(params)
+    );
+  }
+
+  /**
+   * Evaluates the operator, applying the configured message and code to its denial
+   */
+  private async resolveDenial(params: RuleParams<TContext, TInput>): Promise<RuleResult> {
+    const result = await this.evaluate(params);
+    if (isAllowed(result) || (this.message === undefined && this.code === undefined)) {
+      return result;
+    }
+
+    // Replace the denial with the configured message/code, keeping the other details
+    const denial = toDenialError(result);
+    const details = denial instanceof RuleDenialError ? denial : undefined;
+    return new RuleDenialError(this.message ?? denial.message, {
+      code: this.code ?? details?.code,
+      reasons: details?.reasons,
+      data: details?.data,
+      unauthenticated: details?.unauthenticated,
+      failure: isRuleFailure(result),
+    });
+  }
+
+  /**
+   * Combines the results of the operator's rules
+   */
+  protected abstract evaluate(params: RuleParams<TContext, TInput>): Promise<RuleResult>;
+
+  describe(): RuleDescription {
+    return createDescription(this.type, this, {
+      ...(this.message !== undefined && { message: this.message }),
+      ...(this.code !== undefined && { code: this.code }),
+      rules: this.rules.map(describeRule),
+    });
+  }
+
+  toJSON(): RuleDescription {
+    return this.describe();
+  }
+
+  toString(): string {
+    return formatRule(this);
+  }
+}
 
-  abstract resolve(params: { ctx: TContext; path: Path; input: TInput }): Promise<RuleResult>;
+/**
+ * Checks whether a rule wraps an authentication check (`requiresAuth()`) at any depth
+ */
+function checksAuthentication(description: RuleDescription): boolean {
+  return (
+    description.type === 'requiresAuth' || (description.rules?.some(checksAuthentication) ?? false)
+  );
 }
 
 /**
- * AND logic rule - all rules must pass
+ * Creates an abort controller that is also aborted when the parent signal aborts.
+ * Returns the controller and a cleanup function that detaches it from the parent.
+ */
+function createLinkedController(parent?: AbortSignal): [AbortController, () => void] {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+
+  if (parent?.aborted) {
+    controller.abort();
+  }
+  parent?.addEventListener('abort', abort, { once: true });
+
+  return [controller, () => parent?.removeEventListener('abort', abort)];
+}
+
+/**
+ * Evaluates rules concurrently. `decide` sees each result as it arrives and returns the
+ * final result once the outcome is known; rules still running are then aborted.
+ * `settle` produces the result when every rule finished without a decision.
+ */
+async function evaluateConcurrently<TContext, TInput>(
+  rules: IRule<TContext, TInput>[],
+  params: RuleParams<TContext, TInput>,
+  decide: (result: RuleResult, index: number) => RuleResult | undefined,
+  settle: () => RuleResult
+): Promise<RuleResult> {
+  if (rules.length === 0) {
+    return settle();
+  }
+
+  const [controller, unlink] = createLinkedController(params.signal);
+  const childParams = { ...params, signal: controller.signal };
+
+  try {
+    return await new Promise<RuleResult>((resolve, reject) => {
+      let pending = rules.length;
+
+      rules.forEach((rule, index) => {
+        rule.resolve(childParams).then((result) => {
+          const decision = decide(result, index);
+          if (decision !== undefined) {
+            resolve(decision);
+          } else if (--pending === 0) {
+            resolve(settle());
+          }
+        }, reject);
+      });
+    });
+  } finally {
+    // Cancel rules that are still running once the outcome is decided
+    controller.abort();
+    unlink();
+  }
+}
+
+/**
+ * AND logic rule - all rules must pass.
+ * Rules are evaluated concurrently; the first denial wins and aborts the remaining rules.
+ * Authentication checks (`requiresAuth()`) still running are awaited first, so an
+ * anonymous caller is denied as unauthenticated rather than by an authorization rule.
  */
 export class RuleAnd<TContext = Context, TInput = ORPCInput> extends LogicRule<TContext, TInput> {
-  async resolve(params: { ctx: TContext; path: Path; input: TInput }): Promise<RuleResult> {
-    for (const rule of this.rules) {
-      const result = await rule.resolve(params);
-      if (result !== true) {
-        return result;
-      }
-    }
-    return true;
+  protected readonly type = 'and';
+
+  private readonly checksAuth = this.rules.map((rule) => checksAuthentication(describeRule(rule)));
+
+  protected async evaluate(params: RuleParams<TContext, TInput>): Promise<RuleResult> {
+    let pendingAuth = this.checksAuth.filter(Boolean).length;
+    let denial: RuleResult | undefined;
+
+    return evaluateConcurrently(
+      this.rules,
+      params,
+      (result, index) => {
+        if (this.checksAuth[index]) {
+          pendingAuth--;
+        }
+        if (!isAllowed(result)) {
+          if (isUnauthenticated(result)) {
+            return result;
+          }
+          denial ??= result;
+        }
+        return pendingAuth === 0 ? denial : undefined;
+      },
+      () => denial ?? true
+    );
   }
 }
 
@@ -30,31 +262,43 @@ export class RuleAnd<TContext = Context, TInput = ORPCInput> extends LogicRule<T
  * OR logic rule - at least one rule must pass
  */
 export class RuleOr<TContext = Context, TInput = ORPCInput> extends LogicRule<TContext, TInput> {
-  async resolve(params: { ctx: TContext; path: Path; input: TInput }): Promise<RuleResult> {
+  protected readonly type = 'or';
+  private readonly aggregate: boolean;
+
+  constructor(rules: IRule<TContext, TInput>[], options: OrOptions = {}) {
+    super(rules, options);
+    this.aggregate = options.aggregate ?? false;
+  }
+
+  protected async evaluate(params: RuleParams<TContext, TInput>): Promise<RuleResult> {
     const errors: RuleResult[] = [];
 
     for (const rule of this.rules) {
       const result = await rule.resolve(params);
-      if (result === true) {
+      if (isAllowed(result)) {
         return true;
       }
       errors.push(result);
     }
 
-    // Return the first error if all rules failed
-    return errors[0] || new Error('All rules failed');
+    // Return the first error (or all of them when aggregating) if all rules failed
+    return combineDenials(errors, this.rules, this.aggregate);
   }
 }
 
 /**
  * NOT logic rule - inverts the result of a single rule
  */
-export class RuleNot<TContext = Context, TInput = ORPCInput> implements IRule<TContext, TInput> {
-  constructor(private rule: IRule<TContext, TInput>) {}
+export class RuleNot<TContext = Context, TInput = ORPCInput> extends LogicRule<TContext, TInput> {
+  protected readonly type = 'not';
 
-  async resolve(params: { ctx: TContext; path: Path; input: TInput }): Promise<RuleResult> {
-    const result = await this.rule.resolve(params);
-    if (result === true) {
+  constructor(rule: IRule<TContext, TInput>, options: OperatorOptions = {}) {
+    super([rule], options);
+  }
+
+  protected async evaluate(params: RuleParams<TContext, TInput>): Promise<RuleResult> {
+    const result = await this.rules[0].resolve(params);
+    if (isAllowed(result)) {
       return new Error('Rule should not pass');
     }
     return true;
@@ -62,13 +306,49 @@ export class RuleNot<TContext = Context, TInput = ORPCInput> implements IRule<TC
 }
 
 /**
- * CHAIN logic rule - executes rules in sequence, short-circuiting on failure
+ * REQUIRES AUTH rule - marks denials of the wrapped rule as "unauthenticated", so
+ * `shield()` surfaces them as `unauthenticatedErrorCode` (401) instead of 403.
+ * Errors thrown by the wrapped rule are returned unchanged.
+ */
+export class RuleRequiresAuth<TContext = Context, TInput = ORPCInput> extends LogicRule<
+  TContext,
+  TInput
+> {
+  protected readonly type = 'requiresAuth';
+
+  constructor(rule: IRule<TContext, TInput>, options: OperatorOptions = {}) {
+    super([rule], options);
+  }
+
+  protected async evaluate(params: RuleParams<TContext, TInput>): Promise<RuleResult> {
+    const result = await this.rules[0].resolve(params);
+    // Failures stay errors; a check that threw does not mean the caller is anonymous
+    if (isAllowed(result) || isRuleFailure(result)) {
+      return result;
+    }
+
+    const denial = toDenialError(result);
+    const details = denial instanceof RuleDenialError ? denial : undefined;
+    return new RuleDenialError(result === false ? 'Authentication required' : denial.message, {
+      code: details?.code,
+      reasons: details?.reasons,
+      data: details?.data,
+      unauthenticated: true,
+    });
+  }
+}
+
+/**
+ * CHAIN logic rule - executes rules strictly in sequence, short-circuiting on failure.
+ * Use it instead of `and()` when later rules depend on earlier ones having passed.
  */
 export class RuleChain<TContext = Context, TInput = ORPCInput> extends LogicRule<TContext, TInput> {
-  async resolve(params: { ctx: TContext; path: Path; input: TInput }): Promise<RuleResult> {
+  protected readonly type = 'chain';
+
+  protected async evaluate(params: RuleParams<TContext, TInput>): Promise<RuleResult> {
     for (const rule of this.rules) {
       const result = await rule.resolve(params);
-      if (result !== true) {
+      if (!isAllowed(result)) {
         return result;
       }
     }
@@ -77,58 +357,344 @@ export class RuleChain<TContext = Context, TInput = ORPCInput> extends LogicRule
 }
 
 /**
- * RACE logic rule - returns the result of the first rule to complete
+ * RACE logic rule - resolves to the first rule that passes.
+ * Rules are evaluated concurrently and the remaining ones are aborted once one passes.
+ * When every rule denies, all denials are returned as an `AggregateRuleError`, or only
+ * the first one (in rule order) with `{ aggregate: false }`.
  */
 export class RuleRace<TContext = Context, TInput = ORPCInput> extends LogicRule<TContext, TInput> {
-  async resolve(params: { ctx: TContext; path: Path; input: TInput }): Promise<RuleResult> {
-    const promises = this.rules.map((rule) => rule.resolve(params));
-    return await Promise.race(promises);
+  protected readonly type = 'race';
+  private readonly aggregate: boolean;
+
+  constructor(rules: IRule<TContext, TInput>[], options: OrOptions = {}) {
+    super(rules, options);
+    this.aggregate = options.aggregate ?? true;
+  }
+
+  protected async evaluate(params: RuleParams<TContext, TInput>): Promise<RuleResult> {
+    const denials: RuleResult[] = [];
+
+    return evaluateConcurrently(
+      this.rules,
+      params,
+      (result, index) => {
+        if (isAllowed(result)) {
+          return true;
+        }
+        denials[index] = result;
+        return undefined;
+      },
+      () => combineDenials(denials, this.rules, this.aggregate)
+    );
+  }
+}
+
+/**
+ * FIRST SETTLED logic rule - returns the result of the first rule to complete,
+ * whether it allows or denies, and aborts the others
+ */
+export class RuleFirstSettled<TContext = Context, TInput = ORPCInput> extends LogicRule<
+  TContext,
+  TInput
+> {
+  protected readonly type = 'firstSettled';
+
+  protected async evaluate(params: RuleParams<TContext, TInput>): Promise<RuleResult> {
+    return evaluateConcurrently(
+      this.rules,
+      params,
+      (result) => result,
+      () => new Error('No rules to evaluate')
+    );
+  }
+}
+
+/**
+ * Base class for threshold operators. Rules are evaluated concurrently and the outcome
+ * is decided from the number of passing and failing rules as soon as it can no longer
+ * change; the remaining rules are then aborted. A rule that throws ends the evaluation
+ * with its error, so `none()` and `xor()` never grant access because a check failed.
+ */
+abstract class ThresholdRule<TContext = Context, TInput = ORPCInput> extends LogicRule<
+  TContext,
+  TInput
+> {
+  /**
+   * Returns the outcome once it is decided, or undefined while it still depends on
+   * rules that have not finished
+   */
+  protected abstract decide(passed: number, failed: number, total: number): boolean | undefined;
+
+  /**
+   * Message of the denial returned when the threshold is not met
+   */
+  protected abstract readonly denialMessage: string;
+
+  protected async evaluate(params: RuleParams<TContext, TInput>): Promise<RuleResult> {
+    const total = this.rules.length;
+    let passed = 0;
+    let failed = 0;
+
+    const outcome = (): RuleResult | undefined => {
+      const decision = this.decide(passed, failed, total);
+      if (decision === undefined) {
+        return undefined;
+      }
+      return decision ? true : new Error(this.denialMessage);
+    };
+
+    return evaluateConcurrently(
+      this.rules,
+      params,
+      (result) => {
+        if (isRuleFailure(result)) {
+          return result;
+        }
+        if (isAllowed(result)) {
+          passed++;
+        } else {
+          failed++;
+        }
+        return outcome();
+      },
+      () => outcome() ?? new Error(this.denialMessage)
+    );
+  }
+}
+
+/**
+ * AT LEAST logic rule - at least `threshold` rules must pass
+ */
+export class RuleAtLeast<TContext = Context, TInput = ORPCInput> extends ThresholdRule<
+  TContext,
+  TInput
+> {
+  protected readonly type = 'atLeast';
+
+  constructor(
+    private threshold: number,
+    rules: IRule<TContext, TInput>[],
+    options: OperatorOptions = {}
+  ) {
+    super(rules, options);
+
+    if (!Number.isInteger(threshold) || threshold < 1 || threshold > rules.length) {
+      throw new Error(
+        `Invalid atLeast threshold: ${threshold} (expected an integer from 1 to ${rules.length})`
+      );
+    }
+  }
+
+  protected get denialMessage(): string {
+    return `At least ${this.threshold} of ${this.rules.length} rules must pass`;
+  }
+
+  protected decide(passed: number, failed: number, total: number): boolean | undefined {
+    if (passed >= this.threshold) {
+      return true;
+    }
+    if (total - failed < this.threshold) {
+      return false;
+    }
+    return undefined;
+  }
+
+  describe(): RuleDescription {
+    return { ...super.describe(), threshold: this.threshold };
+  }
+}
+
+/**
+ * MAJORITY logic rule - more than half of the rules must pass
+ */
+export class RuleMajority<TContext = Context, TInput = ORPCInput> extends ThresholdRule<
+  TContext,
+  TInput
+> {
+  protected readonly type = 'majority';
+  protected readonly denialMessage = 'A majority of rules must pass';
+
+  protected decide(passed: number, failed: number, total: number): boolean | undefined {
+    const threshold = Math.floor(total / 2) + 1;
+    if (passed >= threshold) {
+      return true;
+    }
+    if (total - failed < threshold) {
+      return false;
+    }
+    return undefined;
   }
 }
 
+/**
+ * NONE logic rule - every rule must deny
+ */
+export class RuleNone<TContext = Context, TInput = ORPCInput> extends ThresholdRule<
+  TContext,
+  TInput
+> {
+  protected readonly type = 'none';
+  protected readonly denialMessage = 'No rule may pass';
+
+  protected decide(passed: number, failed: number, total: number): boolean | undefined {
+    if (passed > 0) {
+      return false;
+    }
+    return failed === total ? true : undefined;
+  }
+}
+
+/**
+ * XOR logic rule - exactly one rule must pass
+ */
+export class RuleXor<TContext = Context, TInput = ORPCInput> extends ThresholdRule<
+  TContext,
+  TInput
+> {
+  protected readonly type = 'xor';
+  protected readonly denialMessage = 'Exactly one rule must pass';
+
+  protected decide(passed: number, failed: number, total: number): boolean | undefined {
+    if (passed > 1) {
+      return false;
+    }
+    return passed + failed === total ? passed === 1 : undefined;
+  }
+}
+
+/**
+ * Separates the optional leading options object from the rules of a variadic operator
+ */
+function splitOperatorArgs<TContext, TInput, TOptions extends OperatorOptions>(
+  args: OperatorArgs<TContext, TInput, TOptions>
+): [IRule<TContext, TInput>[], Partial<TOptions>] {
+  const [first, ...rest] = args;
+  if (args.length > 0 && !isRule(first)) {
+    return [rest as IRule<TContext, TInput>[], first as TOptions];
+  }
+  return [args as IRule<TContext, TInput>[], {}];
+}
+
 // Operator functions
 
 /**
- * Creates an AND rule - all rules must pass
+ * Creates an AND rule - all rules must pass, evaluated concurrently
  */
 export function and<TContext = Context, TInput = ORPCInput>(
-  ...rules: IRule<TContext, TInput>[]
+  ...args: OperatorArgs<TContext, TInput>
 ): IRule<TContext, TInput> {
-  return new RuleAnd(rules);
+  const [rules, options] = splitOperatorArgs(args);
+  return new RuleAnd(rules, options);
 }
 
 /**
  * Creates an OR rule - at least one rule must pass
  */
 export function or<TContext = Context, TInput = ORPCInput>(
-  ...rules: IRule<TContext, TInput>[]
+  ...args: OperatorArgs<TContext, TInput, OrOptions>
 ): IRule<TContext, TInput> {
-  return new RuleOr(rules);
+  const [rules, options] = splitOperatorArgs(args);
+  return new RuleOr(rules, options);
 }
 
 /**
  * Creates a NOT rule - inverts the result of a rule
  */
 export function not<TContext = Context, TInput = ORPCInput>(
-  rule: IRule<TContext, TInput>
+  rule: IRule<TContext, TInput>,
+  options: OperatorOptions = {}
+): IRule<TContext, TInput> {
+  return new RuleNot(rule, options);
+}
+
+/**
+ * Marks a rule as an authentication check: its denials are surfaced as 401 by `shield()`.
+ * Combine with `chain()` so authorization rules only run for authenticated callers.
+ */
+export function requiresAuth<TContext = Context, TInput = ORPCInput>(
+  rule: IRule<TContext, TInput>,
+  options: OperatorOptions = {}
 ): IRule<TContext, TInput> {
-  return new RuleNot(rule);
+  return new RuleRequiresAuth(rule, options);
 }
 
 /**
  * Creates a CHAIN rule - executes rules in sequence
  */
 export function chain<TContext = Context, TInput = ORPCInput>(
-  ...rules: IRule<TContext, TInput>[]
+  ...args: OperatorArgs<TContext, TInput>
 ): IRule<TContext, TInput> {
-  return new RuleChain(rules);
+  const [rules, options] = splitOperatorArgs(args);
+  return new RuleChain(rules, options);
 }
 
 /**
- * Creates a RACE rule - returns first completed rule result
+ * Creates a RACE rule - resolves to the first rule that passes, denying with every
+ * denial only when all deny
  */
 export function race<TContext = Context, TInput = ORPCInput>(
-  ...rules: IRule<TContext, TInput>[]
+  ...args: OperatorArgs<TContext, TInput, OrOptions>
+): IRule<TContext, TInput> {
+  const [rules, options] = splitOperatorArgs(args);
+  return new RuleRace(rules, options);
+}
+
+/**
+ * Alias for `race()`, mirroring `Promise.any` semantics
+ */
+export function any<TContext = Context, TInput = ORPCInput>(
+  ...args: OperatorArgs<TContext, TInput, OrOptions>
+): IRule<TContext, TInput> {
+  return race(...args);
+}
+
+/**
+ * Creates a FIRST SETTLED rule - returns the first completed rule result, allow or deny
+ */
+export function firstSettled<TContext = Context, TInput = ORPCInput>(
+  ...args: OperatorArgs<TContext, TInput>
+): IRule<TContext, TInput> {
+  const [rules, options] = splitOperatorArgs(args);
+  return new RuleFirstSettled(rules, options);
+}
+
+/**
+ * Creates an AT LEAST rule - at least `threshold` rules must pass, e.g. four-eyes approval
+ */
+export function atLeast<TContext = Context, TInput = ORPCInput>(
+  threshold: number,
+  ...args: OperatorArgs<TContext, TInput>
+): IRule<TContext, TInput> {
+  const [rules, options] = splitOperatorArgs(args);
+  return new RuleAtLeast(threshold, rules, options);
+}
+
+/**
+ * Creates a MAJORITY rule - more than half of the rules must pass
+ */
+export function majority<TContext = Context, TInput = ORPCInput>(
+  ...args: OperatorArgs<TContext, TInput>
+): IRule<TContext, TInput> {
+  const [rules, options] = splitOperatorArgs(args);
+  return new RuleMajority(rules, options);
+}
+
+/**
+ * Creates a NONE rule - passes only when every rule denies
+ */
+export function none<TContext = Context, TInput = ORPCInput>(
+  ...args: OperatorArgs<TContext, TInput>
+): IRule<TContext, TInput> {
+  const [rules, options] = splitOperatorArgs(args);
+  return new RuleNone(rules, options);
+}
+
+/**
+ * Creates an XOR rule - exactly one rule must pass
+ */
+export function xor<TContext = Context, TInput = ORPCInput>(
+  ...args: OperatorArgs<TContext, TInput>
 ): IRule<TContext, TInput> {
-  return new RuleRace(rules);
+  const [rules, options] = splitOperatorArgs(args);
+  return new RuleXor(rules, options);
 }
@@ -0,0 +1,64 @@
+import type { Context, IRules, Path, RouterMatchReport, ShieldRouter } from './types.js';
+import {
+  compileRuleTree,
+  findFallbackInTree,
+  findGuardsInTree,
+  findRuleInTree,
+  matchesPath,
+  matchesPathBelow,
+} from './tree.js';
+import { traverseContractProcedures } from '@orpc/server';
+
+/**
+ * Compares a rule tree with the procedures of a router.
+ * Lazy routers are not loaded; pass `await unlazyRouter(router)` to check them too.
+ */
+export function checkRulesAgainstRouter<TContext extends Context>(
+  rules: IRules<TContext>,
+  router: ShieldRouter
+): RouterMatchReport {
+  const tree = compileRuleTree(rules);
+  const procedures: Path[] = [];
+
+  const lazyRouters = traverseContractProcedures({ router, path: [] }, ({ path }) => {
+    procedures.push(path);
+  }).map(({ path }) => path);
+
+  const unknownRules = [...tree.entries, ...tree.guards, ...tree.fallbacks]
+    .filter(
+      (entry) =>
+        !procedures.some((path) => matchesPath(entry.matchers, path)) &&
+        !lazyRouters.some((path) => matchesPathBelow(entry.matchers, path))
+    )
+    .map((entry) => entry.pattern);
+
+  const fallbackProcedures = procedures.filter(
+    (path) => !findRuleInTree(tree, path) && !findFallbackInTree(tree, path)
+  );
+  const unprotectedProcedures = fallbackProcedures.filter(
+    (path) => findGuardsInTree(tree, path).length === 0
+  );
+
+  return {
+    unknownRules,
+    unprotectedProcedures: unprotectedProcedures.map((path) => path.join('.')),
+    fallbackProcedures: fallbackProcedures.map((path) => path.join('.')),
+    lazyRouters: lazyRouters.map((path) => path.join('.')),
+  };
+}
+
+/**
+ * Describes the problems found in a report, or returns undefined when the rule tree matches
+ */
+export function formatRouterMismatch(report: RouterMatchReport): string | undefined {
+  const problems: string[] = [];
+  if (report.unknownRules.length > 0) {
+    problems.push(`rules for unknown procedures: ${report.unknownRules.join(', ')}`);
+  }
+  if (report.unprotectedProcedures.length > 0) {
+    problems.push(`procedures without rules: ${report.unprotectedProcedures.join(', ')}`);
+  }
+  return problems.length > 0
+    ? `Rule tree does not match router (${problems.join('; ')})`
+    : undefined;
+}
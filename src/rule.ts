@@ -1,47 +1,360 @@
-import type { Context, IRule, ORPCInput, Path, RuleResolver, RuleResult } from './types.js';
+import type {
+  Context,
+  DenialReason,
+  IRule,
+  ORPCInput,
+  RuleCacheMode,
+  RuleDecision,
+  RuleDenialOptions,
+  RuleDescription,
+  RuleMetadata,
+  RuleOptions,
+  RuleParams,
+  RuleResolver,
+  RuleResult,
+  ShieldErrorOptions,
+} from './types.js';
+
+let ruleCount = 0;
+
+/**
+ * Denial carrying an ORPC error code, the reasons of several failed rules
+ * or whether the caller is unauthenticated.
+ * `shield()` copies these details onto the resulting `ShieldError`/`ORPCError`.
+ */
+export class RuleDenialError extends Error {
+  readonly code?: ShieldErrorOptions['code'];
+  readonly reasons?: DenialReason[];
+  readonly data?: unknown;
+  readonly unauthenticated?: boolean;
+  readonly failure?: boolean;
+
+  constructor(message: string, options: RuleDenialOptions = {}) {
+    super(message);
+    this.name = 'RuleDenialError';
+    this.code = options.code;
+    this.reasons = options.reasons;
+    this.data = options.data;
+    this.unauthenticated = options.unauthenticated;
+    this.failure = options.failure;
+  }
+}
 
 /**
  * Rule class implementation for oRPC
  */
 export class Rule<TContext = Context, TInput = ORPCInput> implements IRule<TContext, TInput> {
-  constructor(private resolver: RuleResolver<TContext, TInput>) {}
+  readonly name?: string;
+  readonly description?: string;
+  readonly tags?: string[];
+
+  private readonly id = `rule${++ruleCount}`;
+  private readonly cacheMode: RuleCacheMode;
+
+  constructor(
+    private resolver: RuleResolver<TContext, TInput>,
+    options: RuleOptions = {}
+  ) {
+    this.name = options.name;
+    this.description = options.description;
+    this.tags = options.tags;
+    this.cacheMode = options.cache ?? 'no_cache';
+  }
+
+  resolve(params: RuleParams<TContext, TInput>): Promise<RuleResult> {
+    return traceRule(`rule ${this.name ?? 'anonymous'}`, this, params, () =>
+      this.resolveCached(params)
+    );
+  }
+
+  /**
+   * Resolves the rule, reusing the result cached for the request when the cache mode allows
+   */
+  private async resolveCached(params: RuleParams<TContext, TInput>): Promise<RuleResult> {
+    if (params.signal?.aborted) {
+      return new Error('Rule evaluation aborted');
+    }
+
+    const { cache } = params;
+    const key = cache ? this.cacheKey(params) : undefined;
+
+    if (!cache || key === undefined) {
+      return this.evaluate(params);
+    }
+
+    const cached = cache.get(key);
+    if (cached) {
+      const result = await cached;
+      // The entry is dropped when its evaluation was aborted; evaluate again under our signal
+      return cache.get(key) === cached || params.signal?.aborted
+        ? result
+        : this.resolveCached(params);
+    }
+
+    const pending = this.evaluate(params).then((result) => {
+      // Results of aborted evaluations only reflect the abort, so they are not kept
+      if (params.signal?.aborted && cache.get(key) === pending) {
+        cache.delete(key);
+      }
+      return result;
+    });
+    cache.set(key, pending);
+    return pending;
+  }
+
+  /**
+   * Computes the request cache key for this rule, or undefined when the result must not be cached
+   */
+  private cacheKey(params: RuleParams<TContext, TInput>): string | undefined {
+    switch (this.cacheMode) {
+      case 'contextual':
+        return this.id;
+      case 'strict':
+        try {
+          // Output and item are left out of the key when unset
+          const { path, input, output, item } = params;
+          return `${this.id}:${JSON.stringify({ path, input, output, item })}`;
+        } catch {
+          // Values that cannot be serialized (e.g. circular) are evaluated without caching
+          return undefined;
+        }
+      default:
+        return undefined;
+    }
+  }
 
-  async resolve(params: { ctx: TContext; path: Path; input: TInput }): Promise<RuleResult> {
+  describe(): RuleDescription {
+    return createDescription('rule', this, { cache: this.cacheMode });
+  }
+
+  toJSON(): RuleDescription {
+    return this.describe();
+  }
+
+  toString(): string {
+    return formatRule(this);
+  }
+
+  private async evaluate(params: RuleParams<TContext, TInput>): Promise<RuleResult> {
     try {
       return await this.resolver(params);
     } catch (error) {
-      if (error instanceof Error) {
-        return error;
-      }
-      return new Error(String(error));
+      const failure = error instanceof Error ? error : new Error(String(error));
+      thrownErrors.add(failure);
+      return failure;
     }
   }
 }
 
 /**
- * Creates a new rule from a resolver function
+ * Creates a new rule from a resolver function.
+ * Accepts a name or a full options object: `rule<Ctx>('isAdmin')(...)`.
  */
-export function rule<TContext = Context, TInput = ORPCInput>() {
+export function rule<TContext = Context, TInput = ORPCInput>(options: RuleOptions | string = {}) {
+  const resolvedOptions = typeof options === 'string' ? { name: options } : options;
   return (resolver: RuleResolver<TContext, TInput>) => {
-    return new Rule(resolver);
+    return new Rule(resolver, resolvedOptions);
+  };
+}
+
+/**
+ * Checks whether a value is a structured rule decision
+ */
+export function isRuleDecision(value: unknown): value is RuleDecision {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !(value instanceof Error) &&
+    typeof (value as { allow?: unknown }).allow === 'boolean'
+  );
+}
+
+/**
+ * Errors thrown by rule resolvers, as opposed to errors returned as denials
+ */
+const thrownErrors = new WeakSet<Error>();
+
+/**
+ * Checks whether a rule result is an error thrown by a rule resolver rather than a denial,
+ * including denials of operators wrapping such an error
+ */
+export function isRuleFailure(result: RuleResult): boolean {
+  if (result instanceof RuleDenialError && result.failure === true) {
+    return true;
+  }
+  return result instanceof Error && thrownErrors.has(result);
+}
+
+/**
+ * OpenTelemetry `SpanStatusCode.ERROR`
+ */
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Runs a rule evaluation inside a span of `params.tracer`, recording the rule, path and
+ * decision. Thrown errors and rule failures mark the span as failed.
+ */
+export async function traceRule<TContext, TInput>(
+  name: string,
+  rule: IRule<TContext, TInput>,
+  params: RuleParams<TContext, TInput>,
+  evaluate: () => Promise<RuleResult>
+): Promise<RuleResult> {
+  const { tracer } = params;
+  if (!tracer) {
+    return evaluate();
+  }
+
+  return tracer.startActiveSpan(name, async (span) => {
+    const fail = (error: Error) => {
+      span.recordException(error);
+      span.setStatus({ code: SPAN_STATUS_ERROR, message: error.message });
+    };
+
+    span.setAttribute('shield.rule', formatRule(rule));
+    span.setAttribute('shield.path', params.path.join('.'));
+    try {
+      const result = await evaluate();
+      const allowed = isAllowed(result);
+      span.setAttribute('shield.allowed', allowed);
+      if (!allowed) {
+        span.setAttribute('shield.reason', toDenialError(result).message);
+      }
+      if (result instanceof Error && isRuleFailure(result)) {
+        fail(result);
+      }
+      return result;
+    } catch (error) {
+      fail(error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Checks whether a rule result grants access
+ */
+export function isAllowed(result: RuleResult): boolean {
+  return result === true || (isRuleDecision(result) && result.allow);
+}
+
+/**
+ * Converts a denied rule result into an Error carrying the denial reason.
+ * Decision objects become a `RuleDenialError` keeping their code and data.
+ */
+export function toDenialError(result: RuleResult): Error {
+  if (result instanceof Error) {
+    return result;
+  }
+  if (isRuleDecision(result)) {
+    return result.allow
+      ? new Error('Access denied')
+      : new RuleDenialError(result.message ?? 'Access denied', {
+          code: result.code,
+          data: result.data,
+          unauthenticated: result.unauthenticated,
+        });
+  }
+  return new Error(typeof result === 'string' ? result : 'Access denied');
+}
+
+/**
+ * Checks whether a denied rule result means the caller is not authenticated
+ */
+export function isUnauthenticated(result: RuleResult): boolean {
+  if (result instanceof RuleDenialError) {
+    return result.unauthenticated === true;
+  }
+  return isRuleDecision(result) && !result.allow && result.unauthenticated === true;
+}
+
+/**
+ * Checks whether a value implements the rule interface
+ */
+export function isRule<TContext = Context, TInput = ORPCInput>(
+  value: unknown
+): value is IRule<TContext, TInput> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'resolve' in (value as Record<string, unknown>) &&
+    typeof (value as { resolve?: unknown }).resolve === 'function'
+  );
+}
+
+/**
+ * Describes any rule, including custom `IRule` implementations without `describe()`
+ */
+export function describeRule(target: IRule<never, never>): RuleDescription {
+  if (typeof target.describe === 'function') {
+    return target.describe();
+  }
+  return createDescription('rule', { name: target.name });
+}
+
+/**
+ * Renders a rule as a compact expression, e.g. `and(isAuthenticated, or(isAdmin, isOwner))`
+ */
+export function formatRule(target: IRule<never, never>): string {
+  const format = (description: RuleDescription): string => {
+    if (description.name !== undefined) {
+      return description.name;
+    }
+    if (description.rules) {
+      const args = description.rules.map(format);
+      if (description.threshold !== undefined && description.type === 'atLeast') {
+        args.unshift(String(description.threshold));
+      }
+      return `${description.type}(${args.join(', ')})`;
+    }
+    return 'anonymous';
   };
+  return format(describeRule(target));
+}
+
+/**
+ * Builds a rule description, omitting metadata fields that were not set
+ */
+export function createDescription(
+  type: string,
+  metadata: RuleMetadata,
+  extra: Omit<RuleDescription, 'type' | keyof RuleMetadata> = {}
+): RuleDescription {
+  const description: RuleDescription = { type };
+  if (metadata.name !== undefined) {
+    description.name = metadata.name;
+  }
+  if (metadata.description !== undefined) {
+    description.description = metadata.description;
+  }
+  if (metadata.tags !== undefined) {
+    description.tags = metadata.tags;
+  }
+  return { ...description, ...extra };
 }
 
 /**
  * Built-in rule that always allows access
  */
-export const allow = new Rule<Context, ORPCInput>(() => true);
+export const allow = new Rule<Context, ORPCInput>(() => true, { name: 'allow' });
 
 /**
  * Built-in rule that always denies access
  */
-export const deny = new Rule<Context, ORPCInput>(() => new Error('Access denied'));
+export const deny = new Rule<Context, ORPCInput>(() => new Error('Access denied'), {
+  name: 'deny',
+});
 
 /**
  * Creates a rule that always denies with a custom message
  */
 export function denyWithMessage(message: string) {
-  return new Rule<Context, ORPCInput>(() => new Error(message));
+  return new Rule<Context, ORPCInput>(() => new Error(message), {
+    name: 'denyWithMessage',
+    description: message,
+  });
 }
 
 /**
@@ -1,108 +1,189 @@
 import type {
+  AuditDecision,
   Context,
+  DenialReason,
   IRule,
   IRules,
+  LogFields,
   MiddlewareResult,
   ORPCMiddleware,
   Path,
+  ResolvedRule,
+  RouterMatchOptions,
+  RouterMatchReport,
+  RouterMismatchMode,
+  RuleCache,
+  RuleParams,
   RuleResult,
+  RuleTreeDescription,
+  ShieldErrorOptions,
+  ShieldHook,
+  ShieldHookEvent,
+  ShieldLogger,
   ShieldOptions,
+  ShieldPhase,
+  ShieldRouter,
 } from './types.js';
-import { allow } from './rule.js';
+import {
+  RuleDenialError,
+  allow,
+  deny,
+  describeRule,
+  formatRule,
+  isAllowed,
+  isRule,
+  isRuleDecision,
+  isRuleFailure,
+  toDenialError,
+  traceRule,
+} from './rule.js';
+import { checkRulesAgainstRouter, formatRouterMismatch } from './router.js';
+import { consoleLogger, redactInput } from './logger.js';
+import { compileRules } from './tree.js';
 import { ORPCError } from '@orpc/server';
+import { chain } from './operators.js';
 
 /**
  * Shield error class for authorization failures
  */
 export class ShieldError extends Error {
+  public code?: ShieldErrorOptions['code'];
+  public reasons?: DenialReason[];
+  public data?: unknown;
+  public unauthenticated?: boolean;
+
   constructor(
     message: string,
-    public path: Path
+    public path: Path,
+    options: ShieldErrorOptions = {}
   ) {
     super(message);
     this.name = 'ShieldError';
+    this.code = options.code;
+    this.reasons = options.reasons;
+    this.data = options.data;
+    this.unauthenticated = options.unauthenticated;
   }
 }
 
 /**
- * Finds a rule in the rule tree based on the procedure path
+ * Describes every rule in a rule tree, e.g. for security reviews of what protects each procedure
  */
-function isRule<TContext extends Context>(value: unknown): value is IRule<TContext> {
-  return (
-    typeof value === 'object' &&
-    value !== null &&
-    'resolve' in (value as Record<string, unknown>) &&
-    typeof (value as { resolve?: unknown }).resolve === 'function'
-  );
+export function describeRules<TContext extends Context>(
+  rules: IRules<TContext>
+): RuleTreeDescription {
+  const description: RuleTreeDescription = {};
+
+  for (const [key, value] of Object.entries(rules)) {
+    description[key] = isRule<TContext>(value) ? describeRule(value) : describeRules(value);
+  }
+
+  return description;
 }
 
-function findRuleInTree<TContext extends Context>(
-  rules: IRules<TContext>,
-  path: Path
-): IRule<TContext> | null {
-  let current: IRules<TContext> | IRule<TContext> | undefined = rules;
+/**
+ * Processes rule result and handles errors
+ */
+function processRuleResult(result: RuleResult, path: Path): void {
+  if (isAllowed(result)) {
+    return; // Allow access
+  }
 
-  for (const segment of path) {
-    if (!current || typeof current !== 'object') {
-      return null;
-    }
+  if (typeof result === 'string') {
+    throw new ShieldError(result, path);
+  }
 
-    const next = (current as IRules<TContext>)[segment];
+  // ORPC errors returned or thrown by rules are surfaced verbatim
+  if (result instanceof ORPCError) {
+    throw result;
+  }
 
-    if (!next) {
-      return null;
+  if (result instanceof Error || isRuleDecision(result)) {
+    const denial = toDenialError(result);
+    if (denial instanceof RuleDenialError) {
+      const { code, reasons, data, unauthenticated } = denial;
+      throw new ShieldError(denial.message, path, { code, reasons, data, unauthenticated });
     }
-
-    current = next as IRules<TContext> | IRule<TContext>;
+    throw new ShieldError(denial.message, path);
   }
 
-  return isRule(current) ? current : null;
+  // result is false
+  throw new ShieldError('Access denied', path);
 }
 
 /**
- * Validates that the rule tree is properly structured
+ * Combines a resolved leaf rule (or fallback) with its namespace guards, outermost first.
+ * Returns null when neither applies.
  */
-function validateRuleTree<TContext extends Context>(
-  rules: IRules<TContext>,
-  path: string[] = []
-): void {
-  for (const [key, value] of Object.entries(rules)) {
-    const currentPath = [...path, key];
-
-    if (value && typeof value === 'object') {
-      if (isRule<TContext>(value)) {
-        // It's a rule - valid
-        continue;
-      } else {
-        // It should be a nested rule tree
-        validateRuleTree(value as IRules<TContext>, currentPath);
-      }
-    } else {
-      throw new Error(
-        `Invalid rule at path ${currentPath.join('.')}: Expected rule or nested rules object`
-      );
-    }
+function combineResolvedRule<TContext extends Context>(
+  resolved: ResolvedRule<TContext>,
+  fallback: IRule<TContext> | null
+): IRule<TContext> | null {
+  const leaf = resolved.rule ?? resolved.fallback ?? fallback;
+  if (resolved.guards.length === 0) {
+    return leaf;
   }
+  return leaf ? chain(...resolved.guards, leaf) : chain(...resolved.guards);
 }
 
 /**
- * Processes rule result and handles errors
+ * Debug log label of the rule result of each phase; filter items are not logged one by one
  */
-function processRuleResult(result: RuleResult, path: Path): void {
-  if (result === true) {
-    return; // Allow access
-  }
+const RESULT_LABELS: Record<ShieldPhase, string | undefined> = {
+  input: 'Rule result',
+  output: 'Output rule result',
+  filter: undefined,
+};
 
-  if (typeof result === 'string') {
-    throw new ShieldError(result, path);
+/**
+ * Classifies a rule result for hooks and metrics
+ */
+function toDecision(result: RuleResult): AuditDecision {
+  if (isAllowed(result)) {
+    return 'allowed';
   }
+  // Thrown ORPC errors are deliberate denials
+  return isRuleFailure(result) && !(result instanceof ORPCError) ? 'error' : 'denied';
+}
 
-  if (result instanceof Error) {
-    throw new ShieldError(result.message, path);
-  }
+/**
+ * Renders a rule result for debug output
+ */
+function formatResult(result: RuleResult): string {
+  return isRuleDecision(result) ? JSON.stringify(result) : String(result);
+}
 
-  // result is false
-  throw new ShieldError('Access denied', path);
+/**
+ * Checks that a rule tree matches a router, throwing (or warning) when rules target
+ * unknown procedures or procedures have no rule
+ */
+export function assertRulesMatchRouter<TContext extends Context>(
+  rules: IRules<TContext>,
+  router: ShieldRouter,
+  options: RouterMatchOptions = {}
+): RouterMatchReport {
+  const report = checkRulesAgainstRouter(rules, router);
+  reportRouterMismatch(report, options.logger ?? consoleLogger, options.mode);
+  return report;
+}
+
+/**
+ * Throws or warns about the problems found in a router report
+ */
+function reportRouterMismatch(
+  report: RouterMatchReport,
+  logger: ShieldLogger,
+  mode: RouterMismatchMode = 'throw'
+) {
+  const message = formatRouterMismatch(report);
+
+  if (message && mode === 'throw') {
+    throw new Error(message);
+  }
+  if (message) {
+    const { unknownRules, unprotectedProcedures } = report;
+    logger.warn({ unknownRules, unprotectedProcedures }, message);
+  }
 }
 
 /**
@@ -113,78 +194,408 @@ export function shield<TContext extends Context = Context>(
   options: ShieldOptions<TContext> = {}
 ): ORPCMiddleware<TContext> {
   const {
-    fallbackRule = allow as IRule<TContext>,
+    secureByDefault = false,
+    fallbackRule = secureByDefault ? deny : allow,
     allowExternalErrors = true,
     debug = false,
+    logger = consoleLogger,
+    tracer,
+    metrics,
+    logInput = false,
+    redact = [],
     denyErrorCode,
+    unauthenticatedErrorCode = 'UNAUTHORIZED',
+    router,
+    routerMismatch = 'throw',
+    output,
+    filter,
+    filterMode = 'drop',
+    filterBatchSize = Infinity,
+    onAllowed,
+    onDenied,
+    onError,
+    awaitHooks = false,
   } = options;
 
-  // Validate rule tree structure
-  validateRuleTree(rules);
+  // Validate the rule tree and build its lookup table once
+  const compiled = compileRules(rules);
+
+  if (router) {
+    const report = checkRulesAgainstRouter(rules, router);
+
+    if (secureByDefault) {
+      // Procedures without rules are expected here: the fallback denies them.
+      // Guards alone do not replace the fallback, so guarded procedures are listed too.
+      reportRouterMismatch({ ...report, unprotectedProcedures: [] }, logger, routerMismatch);
+      const { fallbackProcedures } = report;
+      if (fallbackProcedures.length > 0) {
+        const rule = formatRule(fallbackRule);
+        logger.warn(
+          { rule, fallbackProcedures },
+          `Procedures relying on fallback rule ${rule}: ${fallbackProcedures.join(', ')}`
+        );
+      }
+    } else {
+      reportRouterMismatch(report, logger, routerMismatch);
+    }
+  }
+
+  // Rules after the handler, e.g. checks that need the loaded record or list items
+  const compiledOutput = output ? compileRules(output) : undefined;
+  const compiledFilter = filter ? compileRules(filter) : undefined;
+
+  if (!(Number.isInteger(filterBatchSize) || filterBatchSize === Infinity) || filterBatchSize < 1) {
+    throw new Error(`Invalid filterBatchSize: ${filterBatchSize}`);
+  }
+
+  if (router) {
+    // Output and filter rules are optional per procedure, so only misspelled keys are reported
+    for (const tree of [output, filter]) {
+      if (tree) {
+        const report = checkRulesAgainstRouter(tree, router);
+        reportRouterMismatch({ ...report, unprotectedProcedures: [] }, logger, routerMismatch);
+      }
+    }
+  }
+
+  // Paths already reported as hitting the fallback rule in secure-by-default mode
+  const fallbackPaths = new Set<string>();
+
+  // Leaf (or fallback) rules combined with their namespace guards, built once per path
+  const combined = new WeakMap<ResolvedRule<TContext>, IRule<TContext> | null>();
+  const selectRule = (resolved: ResolvedRule<TContext>, fallback: IRule<TContext> | null) => {
+    if (!combined.has(resolved)) {
+      combined.set(resolved, combineResolvedRule(resolved, fallback));
+    }
+    return combined.get(resolved) ?? null;
+  };
+
+  /**
+   * Log fields holding the request input, left out unless `logInput` is enabled
+   */
+  const inputFields = (input: unknown): LogFields =>
+    logInput ? { input: redactInput(input, redact) } : {};
+
+  /**
+   * Calls a lifecycle hook, awaited or in the background depending on `awaitHooks`.
+   * Hook failures are logged and never change the access decision.
+   */
+  const emit = async (
+    name: string,
+    hook: ShieldHook<TContext> | undefined,
+    event: ShieldHookEvent<TContext>
+  ) => {
+    if (!hook) {
+      return;
+    }
+
+    const run = async () => {
+      try {
+        await hook(event);
+      } catch (error) {
+        const path = event.path.join('.');
+        logger.error({ path, hook: name, error }, `${name} hook failed for ${path}`);
+      }
+    };
+
+    if (awaitHooks) {
+      await run();
+    } else {
+      void run();
+    }
+  };
+
+  /**
+   * Resolves a rule inside a `shield <phase>` span and reports the outcome to the lifecycle
+   * hooks, and in debug mode to the logger as `<label> for <path>: <result>`
+   */
+  const evaluate = async (
+    rule: IRule<TContext>,
+    evaluationParams: RuleParams<TContext>,
+    phase: ShieldPhase
+  ) => {
+    const params = { ...evaluationParams, tracer };
+    const { ctx, path, input } = params;
+    const label = RESULT_LABELS[phase];
+    const start = performance.now();
+
+    let result: RuleResult;
+    try {
+      result = await traceRule(`shield ${phase}`, rule, params, () => rule.resolve(params));
+    } catch (error) {
+      const durationMs = performance.now() - start;
+      metrics?.record({
+        path: path.join('.'),
+        rule: formatRule(rule),
+        phase,
+        decision: 'error',
+        durationMs,
+      });
+      await emit('onError', onError, {
+        ctx,
+        path,
+        input,
+        phase,
+        rule,
+        result: error instanceof Error ? error : new Error(String(error)),
+        durationMs,
+      });
+      throw error;
+    }
+
+    const event = {
+      ctx,
+      path,
+      input,
+      phase,
+      rule,
+      result,
+      durationMs: performance.now() - start,
+    };
+    if (debug && label) {
+      const formatted = formatResult(result);
+      logger.debug(
+        {
+          path: path.join('.'),
+          rule: formatRule(rule),
+          result: formatted,
+          allowed: isAllowed(result),
+          durationMs: event.durationMs,
+          ...inputFields(input),
+        },
+        `${label} for ${path.join('.')}: ${formatted}`
+      );
+    }
+
+    const decision = toDecision(result);
+    metrics?.record({
+      path: path.join('.'),
+      rule: formatRule(rule),
+      phase,
+      decision,
+      durationMs: event.durationMs,
+    });
+
+    if (decision === 'allowed') {
+      await emit('onAllowed', onAllowed, event);
+    } else if (decision === 'error') {
+      await emit('onError', onError, event);
+    } else {
+      await emit('onDenied', onDenied, event);
+    }
+    return result;
+  };
+
+  /**
+   * Rethrows an error raised while evaluating rules as the configured denial error
+   */
+  const rethrowFailure = (error: unknown, path: Path): never => {
+    if (debug) {
+      logger.error({ path: path.join('.'), error }, `Error processing ${path.join('.')}`);
+    }
+
+    // ORPC errors already carry the intended code and data
+    if (error instanceof ORPCError) {
+      throw error;
+    }
+
+    // Re-throw ShieldError instances (or map to ORPCError if a code is configured)
+    if (error instanceof ShieldError) {
+      const code = error.code ?? (error.unauthenticated ? unauthenticatedErrorCode : denyErrorCode);
+      if (code) {
+        const data = error.data ?? (error.reasons ? { reasons: error.reasons } : undefined);
+        throw new ORPCError(code, { message: error.message, data });
+      }
+      throw error;
+    }
+
+    // Handle external errors based on configuration
+    if (allowExternalErrors && error instanceof Error) {
+      throw error;
+    }
+
+    // Convert other errors
+    const message = error instanceof Error ? error.message : String(error);
+    if (denyErrorCode) {
+      throw new ORPCError(denyErrorCode, { message });
+    }
+    throw new ShieldError(message, path);
+  };
+
+  /**
+   * Checks each item of an array output, `filterBatchSize` items at a time, and drops the
+   * denied ones or, with `filterMode: 'deny'`, throws for the first denial.
+   * Other outputs are checked as a single item that cannot be dropped.
+   */
+  const filterItems = async (
+    rule: IRule<TContext>,
+    value: unknown,
+    params: Omit<RuleParams<TContext>, 'item'>
+  ): Promise<unknown> => {
+    const { path } = params;
+
+    if (!Array.isArray(value)) {
+      processRuleResult(await evaluate(rule, { ...params, item: value }, 'filter'), path);
+      return value;
+    }
+
+    if (debug) {
+      const fields = { path: path.join('.'), rule: formatRule(rule), items: value.length };
+      logger.debug(fields, `Filtering ${value.length} items of ${fields.path} with ${fields.rule}`);
+    }
+
+    const kept: unknown[] = [];
+    for (let start = 0; start < value.length; start += filterBatchSize) {
+      const batch = value.slice(start, start + filterBatchSize);
+      const results = await Promise.all(
+        batch.map((item) => evaluate(rule, { ...params, item }, 'filter'))
+      );
+
+      results.forEach((result, index) => {
+        if (isAllowed(result)) {
+          kept.push(batch[index]);
+        } else if (filterMode === 'deny') {
+          processRuleResult(result, path);
+        }
+      });
+    }
+
+    if (debug) {
+      const dropped = value.length - kept.length;
+      logger.debug(
+        { path: path.join('.'), dropped },
+        `Dropped ${dropped} items of ${path.join('.')}`
+      );
+    }
+
+    return kept.length === value.length ? value : kept;
+  };
 
   const middleware: ORPCMiddleware<TContext> = async (
     options,
     input,
     _output
   ): Promise<MiddlewareResult<TContext>> => {
-    const { context, path, next } = options;
+    const { context, path, next, signal } = options;
+
+    // Rule results are cached for this invocation, before and after the handler
+    const cache: RuleCache = new Map();
 
     try {
       if (debug) {
-        console.log(`[oRPC Shield] Processing path: ${path.join('.')}`);
+        logger.debug(
+          { path: path.join('.'), ...inputFields(input) },
+          `Processing path: ${path.join('.')}`
+        );
       }
 
       // Find the appropriate rule for this path
-      let rule = findRuleInTree(rules, path);
+      const resolved = compiled.resolve(path);
 
-      if (!rule) {
-        if (debug) {
-          console.log(`[oRPC Shield] No rule found for ${path.join('.')}, using fallback`);
-        }
-        rule = fallbackRule;
+      if (!resolved.rule && debug) {
+        logger.debug(
+          { path: path.join('.') },
+          `No rule found for ${path.join('.')}, using fallback`
+        );
       }
 
-      // Execute the rule
-      const result = await rule.resolve({
-        ctx: context,
-        path,
-        input,
-      });
+      // Namespace fallbacks are explicit, so only the global fallback is reported
+      const pathKey = path.join('.');
+      const usesGlobalFallback = !resolved.rule && !resolved.fallback;
+      if (usesGlobalFallback && secureByDefault && !fallbackPaths.has(pathKey)) {
+        fallbackPaths.add(pathKey);
+        const fallback = formatRule(fallbackRule);
+        logger.warn(
+          { path: pathKey, rule: fallback },
+          `No rule found for ${pathKey}, using fallback rule ${fallback}`
+        );
+      }
+
+      const rule = selectRule(resolved, fallbackRule) ?? fallbackRule;
 
       if (debug) {
-        console.log(`[oRPC Shield] Rule result for ${path.join('.')}: ${result}`);
+        logger.debug(
+          { path: path.join('.'), rule: formatRule(rule) },
+          `Evaluating rule ${formatRule(rule)} for ${path.join('.')}`
+        );
       }
 
+      // Execute the rule
+      const result = await evaluate(
+        rule,
+        {
+          ctx: context,
+          path,
+          input,
+          cache,
+          signal,
+        },
+        'input'
+      );
+
       // Process the result
       processRuleResult(result, path);
+    } catch (error) {
+      rethrowFailure(error, path);
+    }
 
-      // If we get here, access is allowed - call next middleware
+    // If we get here, access is allowed - call next middleware
+    const filterRule = compiledFilter ? selectRule(compiledFilter.resolve(path), null) : null;
+    const outputRule = compiledOutput ? selectRule(compiledOutput.resolve(path), null) : null;
+    if (!filterRule && !outputRule) {
       return next({ context });
-    } catch (error) {
-      if (debug) {
-        console.error(`[oRPC Shield] Error processing ${path.join('.')}:`, error);
-      }
+    }
 
-      // Re-throw ShieldError instances (or map to ORPCError if configured)
-      if (error instanceof ShieldError) {
-        if (denyErrorCode) {
-          throw new ORPCError(denyErrorCode, { message: error.message });
-        }
-        throw error;
-      }
+    // Errors thrown by the handler are not shield failures and propagate unchanged
+    const handled = await next({ context });
+    let filtered = handled.output;
 
-      // Handle external errors based on configuration
-      if (allowExternalErrors && error instanceof Error) {
-        throw error;
+    try {
+      // Items are filtered first, so output rules see what the caller receives
+      if (filterRule) {
+        filtered = await filterItems(filterRule, filtered, {
+          ctx: context,
+          path,
+          input,
+          cache,
+          signal,
+        });
       }
+    } catch (error) {
+      rethrowFailure(error, path);
+    }
 
-      // Convert other errors
-      const message = error instanceof Error ? error.message : String(error);
-      if (denyErrorCode) {
-        throw new ORPCError(denyErrorCode, { message });
+    if (!outputRule) {
+      return filtered === handled.output ? handled : { ...handled, output: filtered };
+    }
+
+    try {
+      if (debug) {
+        logger.debug(
+          { path: path.join('.'), rule: formatRule(outputRule) },
+          `Evaluating output rule ${formatRule(outputRule)} for ${path.join('.')}`
+        );
       }
-      throw new ShieldError(message, path);
+
+      const result = await evaluate(
+        outputRule,
+        {
+          ctx: context,
+          path,
+          input,
+          output: filtered,
+          cache,
+          signal,
+        },
+        'output'
+      );
+
+      processRuleResult(result, path);
+    } catch (error) {
+      rethrowFailure(error, path);
     }
+
+    return filtered === handled.output ? handled : { ...handled, output: filtered };
   };
   return middleware;
 }
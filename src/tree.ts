@@ -0,0 +1,390 @@
+import type { CompiledRules, Context, IRule, IRules, Path, ResolvedRule } from './types.js';
+import { isRule } from './rule.js';
+
+/**
+ * Matcher for one part of a rule tree key:
+ * - `literal`: a procedure path segment, e.g. `users`
+ * - `wildcard`: `'*'`, any single segment
+ * - `globstar`: `'**'`, zero or more segments
+ * - `regex`: `'/pattern/flags'`, tested against the rest of the path joined with dots
+ */
+type SegmentMatcher =
+  | { type: 'literal'; value: string }
+  | { type: 'wildcard' }
+  | { type: 'globstar' }
+  | { type: 'regex'; pattern: RegExp };
+
+/**
+ * Rule of a rule tree together with the pattern leading to it
+ */
+export interface RuleEntry<TContext extends Context = Context> {
+  /**
+   * Keys leading to the rule, joined with dots, e.g. `admin.*.delete`
+   */
+  pattern: string;
+  matchers: SegmentMatcher[];
+  rule: IRule<TContext>;
+
+  /**
+   * Position of the rule in the tree, used to break specificity ties
+   */
+  order: number;
+}
+
+/**
+ * Rule tree with its patterns parsed, as produced by `compileRuleTree()`
+ */
+export interface CompiledRuleTree<TContext extends Context = Context> {
+  entries: RuleEntry<TContext>[];
+
+  /**
+   * Namespace guards (`$all` keys), each matching every path below its namespace
+   */
+  guards: RuleEntry<TContext>[];
+
+  /**
+   * Namespace fallbacks (`$fallback` keys), each matching every path below its namespace
+   */
+  fallbacks: RuleEntry<TContext>[];
+}
+
+/**
+ * Key of a namespace guard: its rule must pass, in addition to the leaf rule,
+ * for every procedure below the namespace
+ */
+export const NAMESPACE_GUARD = '$all';
+
+/**
+ * Key of a namespace fallback: its rule replaces `fallbackRule` for procedures below
+ * the namespace that have no rule of their own
+ */
+export const NAMESPACE_FALLBACK = '$fallback';
+
+const REGEX_KEY = /^\/(.+)\/([a-z]*)$/;
+
+/**
+ * Specificity of each matcher type, higher is more specific
+ */
+const MATCHER_RANK: Record<SegmentMatcher['type'], number> = {
+  literal: 3,
+  wildcard: 2,
+  globstar: 1,
+  regex: 0,
+};
+
+/**
+ * Parses a rule tree key into matchers, e.g. `'*.delete'` or `'/^v\d+$/'`
+ */
+function parseKey(key: string, path: string[]): SegmentMatcher[] {
+  const regex = REGEX_KEY.exec(key);
+  if (regex) {
+    try {
+      // Stateful flags would make repeated lookups of the same path disagree
+      return [{ type: 'regex', pattern: new RegExp(regex[1], regex[2].replace(/[gy]/g, '')) }];
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid rule pattern at path ${path.join('.')}: ${reason}`);
+    }
+  }
+
+  // The empty key is an exact key like any other
+  if (key === '') {
+    return [{ type: 'literal', value: key }];
+  }
+
+  return key.split('.').map((segment): SegmentMatcher => {
+    if (segment === '') {
+      throw new Error(`Invalid rule pattern at path ${path.join('.')}: empty path segment`);
+    }
+    if (segment === '*') {
+      return { type: 'wildcard' };
+    }
+    if (segment === '**') {
+      return { type: 'globstar' };
+    }
+    return { type: 'literal', value: segment };
+  });
+}
+
+/**
+ * Validates a rule tree and flattens it into entries, one per rule, in declaration order
+ */
+export function compileRuleTree<TContext extends Context>(
+  rules: IRules<TContext>
+): CompiledRuleTree<TContext> {
+  const entries: RuleEntry<TContext>[] = [];
+  const guards: RuleEntry<TContext>[] = [];
+  const fallbacks: RuleEntry<TContext>[] = [];
+
+  const visit = (tree: IRules<TContext>, path: string[], prefix: SegmentMatcher[]) => {
+    for (const [key, value] of Object.entries(tree)) {
+      const currentPath = [...path, key];
+
+      if (typeof value !== 'object' || (value as unknown) === null) {
+        throw new Error(
+          `Invalid rule at path ${currentPath.join('.')}: Expected rule or nested rules object`
+        );
+      }
+
+      if (key === NAMESPACE_GUARD || key === NAMESPACE_FALLBACK) {
+        const isGuard = key === NAMESPACE_GUARD;
+        if (!isRule<TContext>(value)) {
+          throw new Error(
+            `Invalid rule at path ${currentPath.join('.')}: ` +
+              `Namespace ${isGuard ? 'guards' : 'fallbacks'} must be rules`
+          );
+        }
+        const target = isGuard ? guards : fallbacks;
+        target.push({
+          pattern: currentPath.join('.'),
+          // At least one segment below the namespace
+          matchers: [...prefix, { type: 'wildcard' }, { type: 'globstar' }],
+          rule: value,
+          order: target.length,
+        });
+        continue;
+      }
+
+      const matchers = [...prefix, ...parseKey(key, currentPath)];
+
+      if (isRule<TContext>(value)) {
+        const pattern = currentPath.join('.');
+        // Nested and dotted keys for the same procedures would otherwise both be kept
+        if (entries.some((entry) => entry.pattern === pattern)) {
+          throw new Error(`Duplicate rule pattern ${pattern}`);
+        }
+        entries.push({
+          pattern,
+          matchers,
+          rule: value,
+          order: entries.length,
+        });
+        continue;
+      }
+
+      if (matchers[matchers.length - 1]?.type === 'regex') {
+        throw new Error(
+          `Invalid rule at path ${currentPath.join('.')}: Regex keys must map to a rule`
+        );
+      }
+
+      visit(value, currentPath, matchers);
+    }
+  };
+
+  visit(rules, [], []);
+
+  // Outer namespaces guard first
+  guards.sort((a, b) => a.matchers.length - b.matchers.length || a.order - b.order);
+
+  return { entries, guards, fallbacks };
+}
+
+/**
+ * Checks whether matchers, starting at `index`, match the path from `offset` to its end
+ */
+export function matchesPath(
+  matchers: SegmentMatcher[],
+  path: Path,
+  index = 0,
+  offset = 0
+): boolean {
+  if (index === matchers.length) {
+    return offset === path.length;
+  }
+
+  const matcher = matchers[index];
+  switch (matcher.type) {
+    case 'literal':
+      return path[offset] === matcher.value && matchesPath(matchers, path, index + 1, offset + 1);
+    case 'wildcard':
+      return offset < path.length && matchesPath(matchers, path, index + 1, offset + 1);
+    case 'globstar':
+      for (let end = offset; end <= path.length; end++) {
+        if (matchesPath(matchers, path, index + 1, end)) {
+          return true;
+        }
+      }
+      return false;
+    case 'regex':
+      return offset < path.length && matcher.pattern.test(path.slice(offset).join('.'));
+  }
+}
+
+/**
+ * Checks whether matchers could match a path extending `prefix` by at least one segment.
+ * Regex keys are assumed to match, as their match depends on the unknown segments.
+ */
+export function matchesPathBelow(
+  matchers: SegmentMatcher[],
+  prefix: Path,
+  index = 0,
+  offset = 0
+): boolean {
+  if (offset === prefix.length) {
+    return index < matchers.length;
+  }
+  if (index === matchers.length) {
+    return false;
+  }
+
+  const matcher = matchers[index];
+  switch (matcher.type) {
+    case 'literal':
+      return (
+        prefix[offset] === matcher.value &&
+        matchesPathBelow(matchers, prefix, index + 1, offset + 1)
+      );
+    case 'wildcard':
+      return matchesPathBelow(matchers, prefix, index + 1, offset + 1);
+    case 'globstar':
+      for (let end = offset; end <= prefix.length; end++) {
+        if (matchesPathBelow(matchers, prefix, index + 1, end)) {
+          return true;
+        }
+      }
+      // A trailing globstar also covers the segments below the prefix
+      return index === matchers.length - 1;
+    case 'regex':
+      return true;
+  }
+}
+
+/**
+ * Orders entries from most to least specific: more literal segments first, then patterns
+ * matching a fixed number of segments (without `**` or regex), then by the first differing
+ * matcher (literal > `*` > `**` > regex), then by declaration order
+ */
+function compareSpecificity<TContext extends Context>(
+  a: RuleEntry<TContext>,
+  b: RuleEntry<TContext>
+): number {
+  const count = (entry: RuleEntry<TContext>, types: SegmentMatcher['type'][]) =>
+    entry.matchers.filter((matcher) => types.includes(matcher.type)).length;
+
+  const literalDifference = count(b, ['literal']) - count(a, ['literal']);
+  if (literalDifference !== 0) {
+    return literalDifference;
+  }
+
+  const variableDifference = count(a, ['globstar', 'regex']) - count(b, ['globstar', 'regex']);
+  if (variableDifference !== 0) {
+    return variableDifference;
+  }
+
+  const length = Math.max(a.matchers.length, b.matchers.length);
+  for (let index = 0; index < length; index++) {
+    const rankA = index < a.matchers.length ? MATCHER_RANK[a.matchers[index].type] : -1;
+    const rankB = index < b.matchers.length ? MATCHER_RANK[b.matchers[index].type] : -1;
+    if (rankA !== rankB) {
+      return rankB - rankA;
+    }
+  }
+
+  return a.order - b.order;
+}
+
+/**
+ * Finds the most specific rule whose pattern matches the procedure path
+ */
+export function findRuleInTree<TContext extends Context>(
+  tree: CompiledRuleTree<TContext>,
+  path: Path
+): IRule<TContext> | null {
+  const entry = findEntryInTree(tree, path);
+  return entry ? entry.rule : null;
+}
+
+/**
+ * Finds the most specific entry whose pattern matches the procedure path
+ */
+function findEntryInTree<TContext extends Context>(
+  tree: CompiledRuleTree<TContext>,
+  path: Path
+): RuleEntry<TContext> | undefined {
+  let best: RuleEntry<TContext> | undefined;
+
+  for (const entry of tree.entries) {
+    if (matchesPath(entry.matchers, path) && (!best || compareSpecificity(entry, best) < 0)) {
+      best = entry;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Finds the guards of every namespace containing the procedure path, outermost first
+ */
+export function findGuardsInTree<TContext extends Context>(
+  tree: CompiledRuleTree<TContext>,
+  path: Path
+): IRule<TContext>[] {
+  return tree.guards
+    .filter((guard) => matchesPath(guard.matchers, path))
+    .map((guard) => guard.rule);
+}
+
+/**
+ * Finds the fallback of the nearest namespace containing the procedure path
+ */
+export function findFallbackInTree<TContext extends Context>(
+  tree: CompiledRuleTree<TContext>,
+  path: Path
+): IRule<TContext> | null {
+  let nearest: RuleEntry<TContext> | undefined;
+
+  for (const fallback of tree.fallbacks) {
+    if (
+      matchesPath(fallback.matchers, path) &&
+      (!nearest ||
+        fallback.matchers.length > nearest.matchers.length ||
+        (fallback.matchers.length === nearest.matchers.length &&
+          compareSpecificity(fallback, nearest) < 0))
+    ) {
+      nearest = fallback;
+    }
+  }
+
+  return nearest ? nearest.rule : null;
+}
+
+/**
+ * Compiles a rule tree into a flat lookup table. Exact paths are resolved upfront and
+ * pattern matches are memoized on first lookup, so repeated lookups are a single map read.
+ */
+export function compileRules<TContext extends Context>(
+  rules: IRules<TContext>
+): CompiledRules<TContext> {
+  const tree = compileRuleTree(rules);
+  const table = new Map<string, ResolvedRule<TContext>>();
+
+  const resolve = (path: Path): ResolvedRule<TContext> => {
+    const key = path.join('.');
+    const cached = table.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const entry = findEntryInTree(tree, path);
+    const resolved: ResolvedRule<TContext> = {
+      rule: entry ? entry.rule : null,
+      pattern: entry ? entry.pattern : null,
+      guards: findGuardsInTree(tree, path),
+      fallback: findFallbackInTree(tree, path),
+    };
+    table.set(key, resolved);
+    return resolved;
+  };
+
+  for (const entry of tree.entries) {
+    const literals = entry.matchers.flatMap((matcher) =>
+      matcher.type === 'literal' ? [matcher.value] : []
+    );
+    if (literals.length === entry.matchers.length) {
+      resolve(literals);
+    }
+  }
+
+  return { table, resolve };
+}
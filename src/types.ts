@@ -4,10 +4,35 @@
  */
 export type Path = ReadonlyArray<string>;
 
+/**
+ * Structured decision a rule can return instead of a boolean
+ */
+export type RuleDecision =
+  | { allow: true }
+  | {
+      allow: false;
+
+      /**
+       * ORPC error code surfaced by `shield()`, e.g. 'UNAUTHORIZED' vs 'FORBIDDEN'
+       */
+      code?: ORPCErrorCode;
+      message?: string;
+
+      /**
+       * Structured details for clients, e.g. `{ requiredRole: 'admin' }`
+       */
+      data?: unknown;
+
+      /**
+       * Marks the caller as not authenticated, surfaced as `unauthenticatedErrorCode`
+       */
+      unauthenticated?: boolean;
+    };
+
 /**
  * Result types for rule evaluation
  */
-export type RuleResult = boolean | string | Error;
+export type RuleResult = boolean | string | Error | RuleDecision;
 
 /**
  * Context type for oRPC middleware
@@ -22,19 +47,182 @@ export type ORPCInput<T = unknown> = T;
 type DefaultErrorMap = import('@orpc/server').ORPCErrorConstructorMap<Record<never, never>>;
 
 /**
- * Rule resolver function signature for oRPC
+ * ORPC error code, e.g. 'FORBIDDEN' or 'NOT_FOUND'
+ */
+export type ORPCErrorCode = ConstructorParameters<typeof import('@orpc/server').ORPCError>[0];
+
+/**
+ * Cache strategy for a rule's result within a single request:
+ * - `no_cache`: the resolver runs every time the rule is evaluated
+ * - `contextual`: the result is shared by every evaluation in the request
+ * - `strict`: the result is shared by evaluations with the same path and input
+ */
+export type RuleCacheMode = 'no_cache' | 'contextual' | 'strict';
+
+/**
+ * Per-request store of rule results, created by `shield()` for each middleware invocation.
+ * Pending results are stored as promises so concurrent evaluations share one resolver call.
+ */
+export type RuleCache = Map<string, Promise<RuleResult>>;
+
+/**
+ * Parameters passed to rules when they are evaluated
  */
-export type RuleResolver<TContext = ORPCContext, TInput = ORPCInput> = (params: {
+export interface RuleParams<TContext = ORPCContext, TInput = ORPCInput> {
   ctx: TContext;
   path: Path;
   input: TInput;
-}) => Promise<RuleResult> | RuleResult;
+
+  /**
+   * Result of the procedure handler, only set for rules in `ShieldOptions.output`
+   */
+  output?: unknown;
+
+  /**
+   * Object holding the field being checked for rules in `mask()` specs, or the list item
+   * being checked for rules in `ShieldOptions.filter`
+   */
+  item?: unknown;
+
+  /**
+   * Request-scoped result cache; rules without it always run their resolver
+   */
+  cache?: RuleCache;
+
+  /**
+   * Aborted when the result is no longer needed, e.g. once a sibling in `and()` denies
+   * or the client cancels the request. Pass it on to remote checks to cancel them.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Tracer receiving a span for each evaluated rule and operator; no spans without it
+   */
+  tracer?: ShieldTracer;
+}
+
+/**
+ * Span of a rule evaluation, a subset of the OpenTelemetry `Span` API
+ */
+export interface ShieldSpan {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+
+  /**
+   * Sets the span status; `code` follows OpenTelemetry's `SpanStatusCode` (2 is an error)
+   */
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error): void;
+  end(): void;
+}
+
+/**
+ * Tracer creating spans, a subset of the OpenTelemetry `Tracer` API, so an OpenTelemetry
+ * tracer can be passed as is. Spans must become active for the duration of `fn`, so rules
+ * evaluated inside appear as child spans.
+ */
+export interface ShieldTracer {
+  startActiveSpan<T>(name: string, fn: (span: ShieldSpan) => T): T;
+}
+
+/**
+ * Rule resolver function signature for oRPC
+ */
+export type RuleResolver<TContext = ORPCContext, TInput = ORPCInput> = (
+  params: RuleParams<TContext, TInput>
+) => Promise<RuleResult> | RuleResult;
+
+/**
+ * Descriptive metadata attached to rules and operators for debugging and introspection
+ */
+export interface RuleMetadata {
+  /**
+   * Human readable identifier, shown in debug logs and descriptions
+   */
+  name?: string;
+
+  /**
+   * Explanation of what the rule protects
+   */
+  description?: string;
+
+  /**
+   * Free-form labels for grouping rules, e.g. `['auth', 'billing']`
+   */
+  tags?: string[];
+}
+
+/**
+ * Options accepted by the `rule()` constructor
+ */
+export interface RuleOptions extends RuleMetadata {
+  /**
+   * How the rule's result is cached within a request
+   * @default 'no_cache'
+   */
+  cache?: RuleCacheMode;
+}
+
+/**
+ * Options accepted by every logic operator
+ */
+export interface OperatorOptions extends RuleMetadata {
+  /**
+   * Message returned instead of the operator's own denial, e.g. for `not(isBanned)`
+   */
+  message?: string;
+
+  /**
+   * ORPC error code surfaced by `shield()` when the operator denies
+   */
+  code?: ORPCErrorCode;
+}
+
+/**
+ * Options accepted by `or()` and `race()`
+ */
+export interface OrOptions extends OperatorOptions {
+  /**
+   * When every rule denies, return an `AggregateRuleError` holding each rule's reason
+   * instead of only the first denial
+   * @default false for `or()`, true for `race()`
+   */
+  aggregate?: boolean;
+}
+
+/**
+ * Serializable description of a rule and, for operators, the rules it combines
+ */
+export interface RuleDescription extends RuleMetadata {
+  /**
+   * `rule` for leaf rules, otherwise the operator name (e.g. `and`, `or`)
+   */
+  type: string;
+  cache?: RuleCacheMode;
+
+  /**
+   * Number of rules that must pass, for threshold operators such as `atLeast()`
+   */
+  threshold?: number;
+  message?: string;
+  code?: ORPCErrorCode;
+  rules?: RuleDescription[];
+}
 
 /**
  * Base rule interface
  */
 export interface IRule<TContext = ORPCContext, TInput = ORPCInput> {
-  resolve(params: { ctx: TContext; path: Path; input: TInput }): Promise<RuleResult>;
+  /**
+   * Optional name used when describing or logging the rule
+   */
+  readonly name?: string;
+
+  resolve(params: RuleParams<TContext, TInput>): Promise<RuleResult>;
+
+  /**
+   * Optional introspection hook; see `describeRule()`
+   */
+  describe?(): RuleDescription;
 }
 
 /**
@@ -44,13 +232,208 @@ export type IRules<TContext = ORPCContext, TInput = ORPCInput> = {
   [key: string]: IRule<TContext, TInput> | IRules<TContext, TInput>;
 };
 
+/**
+ * Rules applying to a procedure path, as resolved from a rule tree
+ */
+export interface ResolvedRule<TContext = ORPCContext> {
+  /**
+   * Most specific rule matching the path, or null when the fallback rule applies
+   */
+  rule: IRule<TContext> | null;
+
+  /**
+   * Key path of the matched rule, e.g. `users.list` or `*.delete`
+   */
+  pattern: string | null;
+
+  /**
+   * Namespace guards (`$all`) that must pass before the rule, outermost first
+   */
+  guards: IRule<TContext>[];
+
+  /**
+   * Fallback (`$fallback`) of the nearest enclosing namespace, used instead of
+   * `fallbackRule` when `rule` is null
+   */
+  fallback: IRule<TContext> | null;
+}
+
+/**
+ * Rule tree compiled into a flat lookup table keyed by dotted procedure path
+ */
+export interface CompiledRules<TContext = ORPCContext> {
+  /**
+   * Resolutions computed so far: every exact path upfront, pattern matches once looked up
+   */
+  readonly table: ReadonlyMap<string, ResolvedRule<TContext>>;
+
+  /**
+   * Resolves the rules for a path, memoizing the result in `table`
+   */
+  resolve(path: Path): ResolvedRule<TContext>;
+}
+
+/**
+ * oRPC router, or contract router, whose procedures a rule tree is checked against
+ */
+export type ShieldRouter = import('@orpc/server').TraverseContractProceduresOptions['router'];
+
+/**
+ * How a mismatch between a rule tree and a router is reported:
+ * `throw` an error or `warn` through `logger.warn`
+ */
+export type RouterMismatchMode = 'throw' | 'warn';
+
+/**
+ * Result of checking a rule tree against a router
+ */
+export interface RouterMatchReport {
+  /**
+   * Rule keys matching no procedure of the router, e.g. a misspelled `users.proflie`
+   */
+  unknownRules: string[];
+
+  /**
+   * Procedures covered by neither a rule nor a namespace guard, left to the fallback rule
+   */
+  unprotectedProcedures: string[];
+
+  /**
+   * Procedures without a rule or namespace fallback, whose own check uses the fallback rule.
+   * Unlike `unprotectedProcedures`, this includes procedures covered only by `$all` guards.
+   */
+  fallbackProcedures: string[];
+
+  /**
+   * Paths of lazy routers that were not loaded; rules below them are not checked
+   */
+  lazyRouters: string[];
+}
+
+/**
+ * Options accepted by `assertRulesMatchRouter()`
+ */
+export interface RouterMatchOptions {
+  /**
+   * @default 'throw'
+   */
+  mode?: RouterMismatchMode;
+
+  /**
+   * Destination of the warning in `warn` mode
+   * @default consoleLogger
+   */
+  logger?: ShieldLogger;
+}
+
+/**
+ * Input type of an oRPC procedure or contract procedure, inferred from its input schema
+ */
+export type InferProcedureInput<TProcedure> = TProcedure extends {
+  '~orpc': { inputSchema?: infer TSchema };
+}
+  ? TSchema extends import('@orpc/server').Schema<unknown, unknown>
+    ? import('@orpc/server').InferSchemaInput<TSchema>
+    : unknown
+  : never;
+
+/**
+ * Rule (for procedures) or nested rule tree (for routers) matching one router entry
+ */
+type RuleFor<TEntry, TContext> = TEntry extends import('@orpc/server').Lazy<infer TLoaded>
+  ? RuleFor<TLoaded, TContext>
+  : TEntry extends { '~orpc': unknown }
+    ? IRule<TContext, InferProcedureInput<TEntry>>
+    : IRulesFor<TEntry, TContext>;
+
+/**
+ * Rule tree constrained to the shape of an oRPC router or contract router:
+ * keys must name its procedures and each rule receives that procedure's input type.
+ * Every namespace also accepts a `$all` guard and a `$fallback` rule.
+ *
+ * Pattern keys (`'*'`, `'**'`, regex) are not part of the router shape; use `IRules` for them.
+ */
+export type IRulesFor<TRouter, TContext = ORPCContext> = {
+  [K in keyof TRouter]?: RuleFor<TRouter[K], TContext>;
+} & {
+  $all?: IRule<TContext>;
+  $fallback?: IRule<TContext>;
+};
+
+/**
+ * Description of a rule tree, mirroring its shape
+ */
+export type RuleTreeDescription = {
+  [key: string]: RuleDescription | RuleTreeDescription;
+};
+
+/**
+ * Why one alternative of an aggregated denial failed
+ */
+export interface DenialReason {
+  /**
+   * The denying rule, rendered like `formatRule()`, e.g. `isAdmin` or `and(isAuthenticated, isOwner)`
+   */
+  rule: string;
+
+  /**
+   * The rule's denial message
+   */
+  message: string;
+}
+
+/**
+ * Additional details carried by a denial (`RuleDenialError`) and by `ShieldError`
+ */
+export interface ShieldErrorOptions {
+  /**
+   * ORPC error code to surface instead of `denyErrorCode`
+   */
+  code?: ORPCErrorCode;
+
+  /**
+   * Reason of each alternative that denied access, e.g. from `or({ aggregate: true }, ...)`
+   */
+  reasons?: DenialReason[];
+
+  /**
+   * Structured details surfaced as `ORPCError.data`
+   */
+  data?: unknown;
+
+  /**
+   * Whether access was denied because the caller is not authenticated (401)
+   * rather than not permitted (403)
+   */
+  unauthenticated?: boolean;
+}
+
+/**
+ * Options of a `RuleDenialError`
+ */
+export interface RuleDenialOptions extends ShieldErrorOptions {
+  /**
+   * Whether the denial wraps an error thrown by a rule, e.g. when an operator replaces
+   * its message, so it is still reported as an `error` decision
+   */
+  failure?: boolean;
+}
+
 /**
  * Shield options interface
  */
 export interface ShieldOptions<TContext = ORPCContext> {
+  /**
+   * Deny procedures without a rule: `fallbackRule` defaults to `deny`, every path hitting
+   * the fallback is logged once with `logger.warn`, and with `router` the procedures
+   * relying on the fallback are listed when the shield is created instead of failing the check
+   * @default false
+   */
+  secureByDefault?: boolean;
+
   /**
    * Fallback rule when no rule is found for a path
-   * @default allow (built-in rule that always returns true)
+   * @default allow (built-in rule that always returns true), or deny with `secureByDefault`
    */
   fallbackRule?: IRule<TContext>;
 
@@ -66,11 +449,489 @@ export interface ShieldOptions<TContext = ORPCContext> {
    */
   debug?: boolean;
 
+  /**
+   * Destination of log entries, e.g. a pino logger. Warnings and errors are always logged,
+   * debug entries only with `debug`.
+   * @default consoleLogger, printing `[oRPC Shield]` lines
+   */
+  logger?: ShieldLogger;
+
+  /**
+   * Tracer receiving spans for the permission checks of each call, e.g.
+   * `trace.getTracer('orpc-shield')` from `@opentelemetry/api`
+   * @default no tracing
+   */
+  tracer?: ShieldTracer;
+
+  /**
+   * Registry counting decisions and timing rule evaluations, see `createMetricsRegistry()`
+   * @default no metrics
+   */
+  metrics?: MetricsRegistry;
+
+  /**
+   * Add the request input to debug log entries. Input may hold credentials, so it is
+   * left out unless enabled; list sensitive fields in `redact`.
+   * @default false
+   */
+  logInput?: boolean;
+
+  /**
+   * Input fields replaced with `'[REDACTED]'` in log entries, as dotted paths,
+   * e.g. `['password', 'card.number']`. Arrays on the way are redacted element by element.
+   */
+  redact?: string[];
+
   /**
    * Optional mapping to an ORPC error code when access is denied.
    * Example: 'FORBIDDEN' to surface HTTP 403 via adapters.
    */
-  denyErrorCode?: ConstructorParameters<typeof import('@orpc/server').ORPCError>[0];
+  denyErrorCode?: ORPCErrorCode;
+
+  /**
+   * ORPC error code used for denials marked as unauthenticated, e.g. by `requiresAuth()`.
+   * Applied even when `denyErrorCode` is not set so clients can refresh credentials.
+   * @default 'UNAUTHORIZED'
+   */
+  unauthenticatedErrorCode?: ORPCErrorCode;
+
+  /**
+   * Router (or contract router) to check the rule tree against when the shield is created,
+   * reporting rules for unknown procedures and procedures without rules
+   */
+  router?: ShieldRouter;
+
+  /**
+   * How a mismatch with `router` is reported
+   * @default 'throw'
+   */
+  routerMismatch?: RouterMismatchMode;
+
+  /**
+   * Rules evaluated after the handler, receiving its result as `output`, e.g. to check
+   * ownership of the loaded record. A denial replaces the result with the denial error.
+   * Procedures without an output rule are not checked again.
+   */
+  output?: IRules<TContext>;
+
+  /**
+   * Rules evaluated after the handler for each item of an array output, receiving it as
+   * `item`, e.g. to hide drafts of other authors from a list. Non-array outputs are checked
+   * as a single item. Items are filtered before `output` rules run.
+   */
+  filter?: IRules<TContext>;
+
+  /**
+   * What happens when a `filter` rule denies an item
+   * @default 'drop'
+   */
+  filterMode?: FilterMode;
+
+  /**
+   * Number of items checked concurrently by `filter` rules
+   * @default Infinity (all items at once)
+   */
+  filterBatchSize?: number;
+
+  /**
+   * Called after a rule allows access, for every rule evaluated by the shield
+   * (input, output and filter rules)
+   */
+  onAllowed?: ShieldHook<TContext>;
+
+  /**
+   * Called after a rule denies access; `result` holds the denial
+   */
+  onDenied?: ShieldHook<TContext>;
+
+  /**
+   * Called when a rule throws instead of denying; `result` holds the thrown error
+   */
+  onError?: ShieldHook<TContext>;
+
+  /**
+   * Wait for hooks before continuing the request instead of running them in the background.
+   * Hook failures are logged either way and never change the access decision.
+   * @default false
+   */
+  awaitHooks?: boolean;
+}
+
+/**
+ * Structured fields of a log entry, e.g. `{ path, rule, result, durationMs }`
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Leveled logger receiving structured fields followed by a message, as pino does.
+ * Wrap other loggers to match, e.g. `info: (fields, message) => winston.info(message, fields)`.
+ */
+export interface ShieldLogger {
+  debug(fields: LogFields, message: string): void;
+  info(fields: LogFields, message: string): void;
+  warn(fields: LogFields, message: string): void;
+  error(fields: LogFields, message: string): void;
+}
+
+/**
+ * Stage of a shield check: the procedure check before the handler (`input`), the
+ * check of its result (`output`), or the check of one list item (`filter`)
+ */
+export type ShieldPhase = 'input' | 'output' | 'filter';
+
+/**
+ * Outcome of one rule evaluation, passed to the shield lifecycle hooks
+ */
+export interface ShieldHookEvent<TContext = ORPCContext> {
+  ctx: TContext;
+  path: Path;
+  input: unknown;
+
+  /**
+   * Stage the rule was evaluated in. `filter` events decide about one list item,
+   * not the call: a dropped item does not mean the call was denied.
+   */
+  phase: ShieldPhase;
+
+  /**
+   * Rule that was evaluated, including its namespace guards when combined with them
+   */
+  rule: IRule<TContext>;
+  result: RuleResult;
+
+  /**
+   * Time spent resolving the rule, in milliseconds
+   */
+  durationMs: number;
+}
+
+/**
+ * Lifecycle hook of the shield middleware
+ */
+export type ShieldHook<TContext = ORPCContext> = (
+  event: ShieldHookEvent<TContext>
+) => void | Promise<void>;
+
+/**
+ * Outcome of an audited rule evaluation
+ */
+export type AuditDecision = 'allowed' | 'denied' | 'error';
+
+/**
+ * Audit record of one authorization decision. Records are frozen once created.
+ */
+export interface AuditRecord {
+  /**
+   * ISO 8601 time of the decision
+   */
+  timestamp: string;
+  requestId?: string;
+
+  /**
+   * Caller the decision was made for, as extracted from the context
+   */
+  actor?: string;
+
+  /**
+   * Procedure path joined with dots, e.g. `users.delete`
+   */
+  path: string;
+  phase: ShieldPhase;
+  decision: AuditDecision;
+
+  /**
+   * Denial message or error message; unset for allowed decisions
+   */
+  reason?: string;
+
+  /**
+   * Evaluated rule as rendered by `formatRule()`
+   */
+  rule: string;
+  durationMs: number;
+}
+
+/**
+ * Destination of audit records. `write` receives records in batches and may return a
+ * promise; the next batch is only written once it settles.
+ */
+export interface AuditSink {
+  write(records: readonly AuditRecord[]): void | Promise<void>;
+
+  /**
+   * Releases resources held by the sink, e.g. open files
+   */
+  close?(): void | Promise<void>;
+}
+
+/**
+ * Options for `createAuditLog()`
+ */
+export interface AuditOptions<TContext = ORPCContext> {
+  sink: AuditSink;
+
+  /**
+   * Extracts the caller from the context
+   * @default ctx.user.id when it is a string
+   */
+  actor?: (ctx: TContext) => string | undefined;
+
+  /**
+   * Extracts the request id from the context
+   * @default ctx.requestId when it is a string
+   */
+  requestId?: (ctx: TContext) => string | undefined;
+
+  /**
+   * Decides which records are kept, e.g. only denials and privileged procedures
+   * @default every record
+   */
+  include?: (record: AuditRecord) => boolean;
+
+  /**
+   * Number of records written to the sink at once
+   * @default 100
+   */
+  batchSize?: number;
+
+  /**
+   * Longest time a record waits in the buffer before it is written, in milliseconds
+   * @default 1000
+   */
+  flushIntervalMs?: number;
+
+  /**
+   * Number of records not yet written above which recording waits for the sink to catch up.
+   * Only slows down requests when the shield awaits its hooks (`awaitHooks: true`).
+   * @default 10 * batchSize
+   */
+  maxBufferSize?: number;
+
+  /**
+   * Called when the sink fails to write a batch
+   * @default logs the error through `logger`
+   */
+  onSinkError?: (error: unknown, records: readonly AuditRecord[]) => void;
+
+  /**
+   * Destination of log entries, e.g. a pino logger
+   * @default consoleLogger
+   */
+  logger?: ShieldLogger;
+}
+
+/**
+ * Audit log created by `createAuditLog()`
+ */
+export interface AuditLog<TContext = ORPCContext> {
+  /**
+   * Shield lifecycle hooks recording every decision, e.g. `shield(rules, { ...audit.hooks })`
+   */
+  hooks: Required<Pick<ShieldOptions<TContext>, 'onAllowed' | 'onDenied' | 'onError'>>;
+
+  /**
+   * Records a decision directly, resolving once the buffer has room for more records
+   */
+  record(event: ShieldHookEvent<TContext>, decision: AuditDecision): Promise<void>;
+
+  /**
+   * Writes every buffered record to the sink
+   */
+  flush(): Promise<void>;
+
+  /**
+   * Flushes the buffer and closes the sink
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * In-memory audit sink keeping the most recent records
+ */
+export interface MemoryAuditSink extends AuditSink {
+  /**
+   * Kept records, oldest first
+   */
+  records(): readonly AuditRecord[];
+}
+
+/**
+ * One rule evaluation recorded by a metrics registry
+ */
+export interface MetricSample {
+  /**
+   * Procedure path joined with dots, e.g. `users.delete`
+   */
+  path: string;
+
+  /**
+   * Evaluated rule as rendered by `formatRule()`
+   */
+  rule: string;
+  phase: ShieldPhase;
+  decision: AuditDecision;
+  durationMs: number;
+}
+
+/**
+ * Number of decisions of one outcome for a procedure, rule and phase
+ */
+export interface DecisionCounter {
+  path: string;
+  rule: string;
+  phase: ShieldPhase;
+  decision: AuditDecision;
+  count: number;
+}
+
+/**
+ * Rule evaluation times for a procedure, rule and phase, in seconds. Bucket counts are
+ * cumulative, as in Prometheus: each counts the evaluations taking at most `le` seconds.
+ */
+export interface DurationHistogram {
+  path: string;
+  rule: string;
+  phase: ShieldPhase;
+  buckets: { le: number; count: number }[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Values of every metric of a registry at one point in time
+ */
+export interface MetricsSnapshot {
+  decisions: DecisionCounter[];
+  durations: DurationHistogram[];
+}
+
+/**
+ * Destination of metrics pushed by a registry, e.g. a StatsD or OTLP bridge
+ */
+export interface MetricsCollector {
+  collect(snapshot: MetricsSnapshot): void | Promise<void>;
+}
+
+/**
+ * Options for `createMetricsRegistry()`
+ */
+export interface MetricsOptions {
+  /**
+   * Prefix of the Prometheus metric names
+   * @default 'orpc_shield'
+   */
+  prefix?: string;
+
+  /**
+   * Upper bounds of the duration histogram buckets, in seconds
+   * @default [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1]
+   */
+  buckets?: number[];
+
+  /**
+   * Collector receiving snapshots from `push()`
+   */
+  collector?: MetricsCollector;
+
+  /**
+   * Push a snapshot to `collector` at this interval, in milliseconds
+   * @default only on `push()`
+   */
+  pushIntervalMs?: number;
+
+  /**
+   * Destination of log entries, e.g. failed interval pushes
+   * @default consoleLogger
+   */
+  logger?: ShieldLogger;
+}
+
+/**
+ * Registry of authorization metrics, created by `createMetricsRegistry()`
+ */
+export interface MetricsRegistry {
+  /**
+   * Counts a decision and records its duration
+   */
+  record(sample: MetricSample): void;
+  snapshot(): MetricsSnapshot;
+
+  /**
+   * Renders every metric in the Prometheus text exposition format
+   */
+  toPrometheus(): string;
+
+  /**
+   * Sends a snapshot to the collector, if any
+   */
+  push(): Promise<void>;
+
+  /**
+   * Clears every metric
+   */
+  reset(): void;
+
+  /**
+   * Stops pushing at `pushIntervalMs`
+   */
+  close(): void;
+}
+
+/**
+ * What happens to a list item whose `filter` rule denies access:
+ * - `drop`: the item is removed from the output
+ * - `deny`: the whole call is denied with the rule's denial
+ */
+export type FilterMode = 'drop' | 'deny';
+
+/**
+ * What happens to an output field whose rule denies access:
+ * - `remove`: the field is deleted from its object
+ * - `redact`: the field value is replaced with `redactedValue`
+ */
+export type MaskMode = 'remove' | 'redact';
+
+/**
+ * Output fields of one procedure mapped to the rule that must pass to see them.
+ * Keys are field names, dotted field paths or nested field objects; arrays on the way
+ * are masked element by element.
+ */
+export type MaskFields<TContext = ORPCContext> = {
+  [field: string]: IRule<TContext> | MaskFields<TContext>;
+};
+
+/**
+ * Masking spec keyed by dotted procedure path, e.g. `{ 'users.get': { ssn: isHR } }`
+ */
+export type MaskSpec<TContext = ORPCContext> = Record<string, MaskFields<TContext>>;
+
+/**
+ * Options for `mask()`
+ */
+export interface MaskOptions {
+  /**
+   * How fields the caller may not see are hidden
+   * @default 'remove'
+   */
+  mode?: MaskMode;
+
+  /**
+   * Value replacing fields in `redact` mode
+   * @default '[REDACTED]'
+   */
+  redactedValue?: unknown;
+
+  /**
+   * Enable debug mode for detailed logging
+   * @default false
+   */
+  debug?: boolean;
+
+  /**
+   * Destination of log entries, e.g. a pino logger
+   * @default consoleLogger
+   */
+  logger?: ShieldLogger;
 }
 
 // Align middleware types with @orpc/server
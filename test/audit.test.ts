@@ -0,0 +1,297 @@
+/**
+ * Tests for audit logging and audit sinks
+ */
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { AuditRecord, AuditSink, ShieldHookEvent } from '../src/types.js';
+import {
+  MockMiddlewareExecutor,
+  type TestContext,
+  TestPaths,
+  createAdminContext,
+  createTestContext,
+} from './helpers/setup.js';
+import { allow, denyWithMessage } from '../src/rule.js';
+import { createAuditLog, jsonLinesSink, memorySink } from '../src/audit.js';
+import { Writable } from 'node:stream';
+import { shield } from '../src/shield.js';
+
+const event = (overrides: Partial<ShieldHookEvent<TestContext>> = {}) => ({
+  ctx: createAdminContext(),
+  path: TestPaths.users.delete,
+  input: {},
+  phase: 'input' as const,
+  rule: allow,
+  result: true,
+  durationMs: 1.5,
+  ...overrides,
+});
+
+const record = (path: string): AuditRecord => ({
+  timestamp: new Date(0).toISOString(),
+  path,
+  phase: 'input',
+  decision: 'denied',
+  rule: 'deny',
+  durationMs: 0,
+});
+
+describe('createAuditLog', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should record each decision made by the shield', async () => {
+    const sink = memorySink();
+    const audit = createAuditLog<TestContext>({ sink });
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(
+      shield(
+        { users: { list: allow, delete: denyWithMessage('Admins only') } },
+        { ...audit.hooks, awaitHooks: true }
+      )
+    );
+
+    await executor.execute({
+      context: { ...createAdminContext(), requestId: 'req-1' } as TestContext,
+      path: TestPaths.users.list,
+    });
+    await executor.execute({ context: createTestContext(), path: TestPaths.users.delete });
+    await audit.flush();
+
+    expect(sink.records()).toEqual([
+      {
+        timestamp: expect.any(String),
+        requestId: 'req-1',
+        actor: 'admin-1',
+        path: 'users.list',
+        phase: 'input',
+        decision: 'allowed',
+        reason: undefined,
+        rule: 'allow',
+        durationMs: expect.any(Number),
+      },
+      expect.objectContaining({
+        actor: undefined,
+        path: 'users.delete',
+        decision: 'denied',
+        reason: 'Admins only',
+        rule: 'denyWithMessage',
+      }),
+    ]);
+  });
+
+  it('should freeze records', async () => {
+    const sink = memorySink();
+    const audit = createAuditLog<TestContext>({ sink });
+
+    await audit.record(event(), 'allowed');
+    await audit.flush();
+
+    expect(Object.isFrozen(sink.records()[0])).toBe(true);
+  });
+
+  it('should use custom actor and request id extractors', async () => {
+    const sink = memorySink();
+    const audit = createAuditLog<TestContext>({
+      sink,
+      actor: (ctx) => ctx.user?.role,
+      requestId: () => 'fixed',
+    });
+
+    await audit.record(event(), 'allowed');
+    await audit.flush();
+
+    expect(sink.records()[0]).toMatchObject({ actor: 'admin', requestId: 'fixed' });
+  });
+
+  it('should only keep records accepted by include', async () => {
+    const sink = memorySink();
+    const audit = createAuditLog<TestContext>({
+      sink,
+      include: (entry) => entry.decision !== 'allowed',
+    });
+
+    await audit.record(event(), 'allowed');
+    await audit.record(event({ result: new Error('Nope') }), 'denied');
+    await audit.flush();
+
+    expect(sink.records().map((entry) => entry.reason)).toEqual(['Nope']);
+  });
+
+  it('should write full batches and flush the rest after the interval', async () => {
+    vi.useFakeTimers();
+    const write = vi.fn();
+    const audit = createAuditLog<TestContext>({ sink: { write }, batchSize: 2 });
+
+    await audit.record(event(), 'allowed');
+    await audit.record(event(), 'allowed');
+    await audit.record(event(), 'allowed');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(write).toHaveBeenCalledTimes(1);
+    expect(write.mock.calls[0][0]).toHaveLength(2);
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(write).toHaveBeenCalledTimes(2);
+    expect(write.mock.calls[1][0]).toHaveLength(1);
+  });
+
+  it('should reject batch and buffer sizes that are not positive integers', () => {
+    const sink = memorySink();
+
+    expect(() => createAuditLog({ sink, batchSize: 0 })).toThrow('Invalid batchSize: 0');
+    expect(() => createAuditLog({ sink, batchSize: 2.5 })).toThrow('Invalid batchSize: 2.5');
+    expect(() => createAuditLog({ sink, batchSize: NaN })).toThrow('Invalid batchSize: NaN');
+    expect(() => createAuditLog({ sink, maxBufferSize: 0 })).toThrow('Invalid maxBufferSize: 0');
+    expect(() => createAuditLog({ sink, maxBufferSize: 1.5 })).toThrow(
+      'Invalid maxBufferSize: 1.5'
+    );
+  });
+
+  it('should schedule flushes where timers are numeric ids', async () => {
+    // Browsers and edge runtimes return numbers without unref()
+    const setTimeoutSpy = vi
+      .spyOn(globalThis, 'setTimeout')
+      .mockReturnValue(1 as unknown as ReturnType<typeof setTimeout>);
+    const audit = createAuditLog<TestContext>({ sink: memorySink() });
+
+    await expect(audit.record(event(), 'allowed')).resolves.toBeUndefined();
+    expect(setTimeoutSpy).toHaveBeenCalledOnce();
+    setTimeoutSpy.mockRestore();
+  });
+
+  it('should make recording wait for a slow sink once the buffer is full', async () => {
+    const written: AuditRecord[][] = [];
+    let release = () => {};
+    const sink: AuditSink = {
+      write: (records) =>
+        new Promise<void>((resolve) => {
+          written.push([...records]);
+          release = resolve;
+        }),
+    };
+    const audit = createAuditLog<TestContext>({ sink, batchSize: 1, maxBufferSize: 2 });
+
+    await audit.record(event(), 'allowed');
+    let recorded = false;
+    const pending = audit.record(event(), 'allowed').then(() => {
+      recorded = true;
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(recorded).toBe(false);
+    release();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    release();
+    await pending;
+
+    expect(recorded).toBe(true);
+    expect(written).toHaveLength(2);
+  });
+
+  it('should report sink failures and keep writing later batches', async () => {
+    const onSinkError = vi.fn();
+    const write = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('disk full'))
+      .mockResolvedValueOnce(undefined);
+    const audit = createAuditLog<TestContext>({ sink: { write }, onSinkError, batchSize: 1 });
+
+    await audit.record(event(), 'allowed');
+    await audit.record(event(), 'allowed');
+    await audit.flush();
+
+    expect(onSinkError).toHaveBeenCalledWith(new Error('disk full'), [expect.any(Object)]);
+    expect(write).toHaveBeenCalledTimes(2);
+  });
+
+  it('should log sink failures through the logger by default', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const write = vi.fn().mockRejectedValue(new Error('disk full'));
+    const audit = createAuditLog<TestContext>({ sink: { write }, logger });
+
+    await audit.record(event(), 'allowed');
+    await audit.flush();
+
+    expect(logger.error).toHaveBeenCalledWith(
+      { records: 1, error: new Error('disk full') },
+      'Failed to write 1 audit records'
+    );
+  });
+
+  it('should close the sink after flushing', async () => {
+    const calls: string[] = [];
+    const audit = createAuditLog<TestContext>({
+      sink: { write: () => void calls.push('write'), close: () => void calls.push('close') },
+    });
+
+    await audit.record(event(), 'allowed');
+    await audit.close();
+
+    expect(calls).toEqual(['write', 'close']);
+  });
+});
+
+describe('memorySink', () => {
+  it('should keep only the most recent records', async () => {
+    const sink = memorySink(2);
+
+    await sink.write([record('a'), record('b')]);
+    await sink.write([record('c')]);
+
+    expect(sink.records().map((entry) => entry.path)).toEqual(['b', 'c']);
+  });
+
+  it('should reject capacities that are not positive integers', () => {
+    expect(() => memorySink(0)).toThrow('Invalid capacity: 0');
+    expect(() => memorySink(1.5)).toThrow('Invalid capacity: 1.5');
+    expect(() => memorySink(NaN)).toThrow('Invalid capacity: NaN');
+  });
+});
+
+describe('jsonLinesSink', () => {
+  it('should write one JSON object per line', async () => {
+    const chunks: string[] = [];
+    const stream = new Writable({
+      write(chunk: Buffer, _encoding, callback) {
+        chunks.push(chunk.toString());
+        callback();
+      },
+    });
+    const sink = jsonLinesSink(stream);
+
+    await sink.write([record('a'), record('b')]);
+    await sink.close?.();
+
+    expect(chunks.join('').split('\n')).toEqual([
+      JSON.stringify(record('a')),
+      JSON.stringify(record('b')),
+      '',
+    ]);
+    expect(stream.writableEnded).toBe(false);
+  });
+
+  it('should reject writes to an unwritable destination', async () => {
+    const sink = jsonLinesSink('/nonexistent/dir/audit.log');
+
+    await expect(sink.write([record('a')])).rejects.toMatchObject({ code: 'ENOENT' });
+    await expect(sink.write([record('b')])).rejects.toMatchObject({ code: 'ENOENT' });
+    await sink.close?.();
+  });
+
+  it('should report stream errors to onSinkError', async () => {
+    const onSinkError = vi.fn();
+    const audit = createAuditLog<TestContext>({
+      sink: jsonLinesSink('/nonexistent/dir/audit.log'),
+      onSinkError,
+    });
+
+    await audit.record(event(), 'denied');
+    await audit.flush();
+
+    expect(onSinkError).toHaveBeenCalledWith(expect.objectContaining({ code: 'ENOENT' }), [
+      expect.objectContaining({ decision: 'denied' }),
+    ]);
+  });
+});
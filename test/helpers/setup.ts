@@ -1,7 +1,8 @@
 /**
  * Test setup utilities and helpers for oRPC Shield tests
  */
-import type { ORPCContext, ORPCInput, Path } from '../../src/types.js';
+import type { ORPCContext, ORPCInput, Path, ShieldSpan, ShieldTracer } from '../../src/types.js';
+import { AsyncLocalStorage } from 'node:async_hooks';
 
 /**
  * Mock context for testing
@@ -184,6 +185,49 @@ export const TestInputs = {
   },
 } as const;
 
+/**
+ * Span recorded by a test tracer
+ */
+export interface RecordedSpan {
+  name: string;
+  parent?: string;
+  attributes: Record<string, string | number | boolean>;
+  status?: { code: number; message?: string };
+  exceptions: Error[];
+  ended: boolean;
+}
+
+/**
+ * Creates a tracer recording its spans, tracking the active span across async calls
+ * the way OpenTelemetry context managers do
+ */
+export function createTestTracer(): ShieldTracer & { spans: RecordedSpan[] } {
+  const active = new AsyncLocalStorage<RecordedSpan>();
+  const spans: RecordedSpan[] = [];
+
+  return {
+    spans,
+    startActiveSpan(name, fn) {
+      const recorded: RecordedSpan = {
+        name,
+        parent: active.getStore()?.name,
+        attributes: {},
+        exceptions: [],
+        ended: false,
+      };
+      spans.push(recorded);
+
+      const span: ShieldSpan = {
+        setAttribute: (key, value) => (recorded.attributes[key] = value),
+        setStatus: (status) => (recorded.status = status),
+        recordException: (exception) => void recorded.exceptions.push(exception),
+        end: () => void (recorded.ended = true),
+      };
+      return active.run(recorded, () => fn(span));
+    },
+  };
+}
+
 /**
  * Utility to create a delay for testing async rules
  */
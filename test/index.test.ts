@@ -41,6 +41,12 @@ describe('module exports', () => {
 
     expect(operatorsModule.race).toBeDefined();
     expect(typeof operatorsModule.race).toBe('function');
+
+    expect(operatorsModule.any).toBeDefined();
+    expect(typeof operatorsModule.any).toBe('function');
+
+    expect(operatorsModule.firstSettled).toBeDefined();
+    expect(typeof operatorsModule.firstSettled).toBe('function');
   });
 
   it('should export shield middleware functions', async () => {
@@ -72,11 +78,28 @@ describe('module exports', () => {
     expect(indexModule.not).toBeDefined();
     expect(indexModule.chain).toBeDefined();
     expect(indexModule.race).toBeDefined();
+    expect(indexModule.any).toBeDefined();
+    expect(indexModule.firstSettled).toBeDefined();
 
     // Shield middleware
     expect(indexModule.shield).toBeDefined();
     expect(indexModule.shieldDebug).toBeDefined();
     expect(indexModule.ShieldError).toBeDefined();
+
+    // Rule tree compilation
+    expect(indexModule.compileRules).toBeDefined();
+
+    // Output masking
+    expect(indexModule.mask).toBeDefined();
+
+    // Logging
+    expect(indexModule.consoleLogger).toBeDefined();
+
+    // Audit logging
+    expect(indexModule.createAuditLog).toBeDefined();
+    expect(indexModule.memorySink).toBeDefined();
+    expect(indexModule.createMetricsRegistry).toBeDefined();
+    expect(indexModule.jsonLinesSink).toBeDefined();
   });
 
   it('should have consistent function signatures', async () => {
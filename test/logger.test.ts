@@ -0,0 +1,56 @@
+/**
+ * Tests for the console logger and input redaction
+ */
+import { REDACTED, consoleLogger, redactInput } from '../src/logger.js';
+import { describe, expect, it, vi } from 'vitest';
+
+describe('consoleLogger', () => {
+  it('should print the message with the shield prefix', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    consoleLogger.debug({ path: 'users.list' }, 'Processing path: users.list');
+
+    expect(log).toHaveBeenCalledWith('[oRPC Shield] Processing path: users.list');
+    log.mockRestore();
+  });
+
+  it('should print errors after the message', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const failure = new Error('boom');
+
+    consoleLogger.error({ error: failure }, 'Error processing users.list');
+
+    expect(error).toHaveBeenCalledWith('[oRPC Shield] Error processing users.list:', failure);
+    error.mockRestore();
+  });
+});
+
+describe('redactInput', () => {
+  it('should replace fields at dotted paths', () => {
+    const input = {
+      email: 'a@example.com',
+      password: 'secret',
+      card: { number: '4242', exp: '12' },
+    };
+
+    expect(redactInput(input, ['password', 'card.number'])).toEqual({
+      email: 'a@example.com',
+      password: REDACTED,
+      card: { number: REDACTED, exp: '12' },
+    });
+    expect(input.password).toBe('secret');
+  });
+
+  it('should redact fields of array items', () => {
+    expect(redactInput({ users: [{ token: 'a' }, { token: 'b' }] }, ['users.token'])).toEqual({
+      users: [{ token: REDACTED }, { token: REDACTED }],
+    });
+  });
+
+  it('should leave inputs without the field unchanged', () => {
+    const input = { name: 'Ada' };
+
+    expect(redactInput(input, ['password', 'card.number'])).toBe(input);
+    expect(redactInput(undefined, ['password'])).toBeUndefined();
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Tests for field-level output masking
+ */
+/* eslint-disable @typescript-eslint/no-unsafe-argument */
+import { describe, expect, it, vi } from 'vitest';
+import {
+  type TestContext,
+  TestPaths,
+  createAdminContext,
+  createAuthenticatedContext,
+} from './helpers/setup.js';
+import { allow, deny, rule } from '../src/rule.js';
+import type { MaskOptions, MaskSpec, Path } from '../src/types.js';
+import { mask } from '../src/mask.js';
+
+const isAdmin = rule<TestContext>()(({ ctx }) => ctx.user?.role === 'admin');
+const isSelfOrAdmin = rule<TestContext>({ cache: 'no_cache' })(
+  ({ ctx, item }) => ctx.user?.role === 'admin' || (item as { id: string }).id === ctx.user?.id
+);
+
+const user = { id: '1', name: 'Ada', email: 'ada@example.com', ssn: '123' };
+const other = { id: '2', name: 'Bob', email: 'bob@example.com', ssn: '456' };
+
+interface ExecuteOptions {
+  context?: TestContext;
+  path?: Path;
+  options?: MaskOptions;
+}
+
+const execute = async (
+  spec: MaskSpec<TestContext>,
+  output: unknown,
+  {
+    context = createAuthenticatedContext(),
+    path = TestPaths.users.get,
+    options = {},
+  }: ExecuteOptions = {}
+) => {
+  const middleware = mask(spec, options);
+  const result = await middleware(
+    { context, path, next: () => ({ output, context }) } as any,
+    {},
+    (value: unknown) => ({ output: value, context })
+  );
+  return result.output;
+};
+
+describe('mask', () => {
+  it('should remove fields the caller may not see', async () => {
+    const output = await execute({ 'users.get': { email: isSelfOrAdmin, ssn: isAdmin } }, other);
+
+    expect(output).toEqual({ id: '2', name: 'Bob' });
+  });
+
+  it('should keep fields the caller may see', async () => {
+    const output = await execute({ 'users.get': { email: isSelfOrAdmin, ssn: isAdmin } }, user, {
+      context: createAdminContext(),
+    });
+
+    expect(output).toBe(user);
+  });
+
+  it('should redact fields in redact mode', async () => {
+    const output = await execute({ 'users.get': { ssn: deny } }, user, {
+      options: { mode: 'redact', redactedValue: null },
+    });
+
+    expect(output).toEqual({ ...user, ssn: null });
+  });
+
+  it('should mask nested objects and arrays element by element', async () => {
+    const spec = {
+      'users.list': { items: { email: isSelfOrAdmin }, 'meta.query': deny },
+    };
+    const output = await execute(
+      spec,
+      { items: [user, other], meta: { query: 'a', total: 2 } },
+      { path: TestPaths.users.list }
+    );
+
+    expect(output).toEqual({
+      items: [user, { id: '2', name: 'Bob', ssn: '456' }],
+      meta: { total: 2 },
+    });
+  });
+
+  it('should leave the handler result untouched', async () => {
+    const handled = { items: [{ ...other }] };
+
+    await execute({ 'users.list': { 'items.email': deny } }, handled, {
+      path: TestPaths.users.list,
+    });
+
+    expect(handled.items[0]).toEqual(other);
+  });
+
+  it('should hide fields whose rule throws', async () => {
+    const failing = rule<TestContext>()(() => {
+      throw new Error('lookup failed');
+    });
+
+    expect(await execute({ 'users.get': { email: failing, name: allow } }, user)).toEqual({
+      id: '1',
+      name: 'Ada',
+      ssn: '123',
+    });
+  });
+
+  it('should send debug entries to the logger', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+    await execute({ 'users.get': { ssn: isAdmin } }, user, { options: { debug: true, logger } });
+
+    expect(logger.debug).toHaveBeenCalledWith({ path: 'users.get' }, 'Masked output of users.get');
+  });
+
+  it('should pass the whole result as output to field rules', async () => {
+    const resolver = vi.fn(() => true);
+    const spy = rule<TestContext>({ cache: 'no_cache' })(resolver);
+
+    await execute({ 'users.get': { 'profile.email': spy } }, { profile: user });
+
+    expect(resolver).toHaveBeenCalledWith(
+      expect.objectContaining({ output: { profile: user }, item: user })
+    );
+  });
+
+  it('should ignore procedures and fields missing from the spec or output', async () => {
+    expect(await execute({ 'users.get': { email: deny } }, user, { path: ['posts'] })).toBe(user);
+    expect(await execute({ 'users.get': { 'address.city': deny } }, user)).toBe(user);
+    expect(await execute({ 'users.get': { email: deny } }, null)).toBeNull();
+  });
+
+  it('should reject invalid field specs', () => {
+    expect(() => mask({ 'users.get': { email: 'admin' } } as any)).toThrow(
+      'Invalid mask rule at path users.get.email: Expected rule or nested fields object'
+    );
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Tests for the metrics registry and Prometheus exporter
+ */
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMetricsRegistry } from '../src/metrics.js';
+
+describe('createMetricsRegistry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should count decisions per path, rule and decision', () => {
+    const metrics = createMetricsRegistry();
+
+    metrics.record({
+      path: 'users.list',
+      rule: 'allow',
+      phase: 'input',
+      decision: 'allowed',
+      durationMs: 1,
+    });
+    metrics.record({
+      path: 'users.list',
+      rule: 'allow',
+      phase: 'input',
+      decision: 'allowed',
+      durationMs: 1,
+    });
+    metrics.record({
+      path: 'users.list',
+      rule: 'allow',
+      phase: 'input',
+      decision: 'error',
+      durationMs: 1,
+    });
+
+    expect(metrics.snapshot().decisions).toEqual([
+      { path: 'users.list', rule: 'allow', phase: 'input', decision: 'allowed', count: 2 },
+      { path: 'users.list', rule: 'allow', phase: 'input', decision: 'error', count: 1 },
+    ]);
+  });
+
+  it('should count each phase separately', () => {
+    const metrics = createMetricsRegistry();
+
+    metrics.record({
+      path: 'posts.list',
+      rule: 'r',
+      phase: 'input',
+      decision: 'allowed',
+      durationMs: 1,
+    });
+    metrics.record({
+      path: 'posts.list',
+      rule: 'r',
+      phase: 'filter',
+      decision: 'denied',
+      durationMs: 1,
+    });
+
+    expect(metrics.snapshot().decisions.map(({ phase, decision }) => [phase, decision])).toEqual([
+      ['input', 'allowed'],
+      ['filter', 'denied'],
+    ]);
+    expect(metrics.snapshot().durations.map(({ phase }) => phase)).toEqual(['input', 'filter']);
+  });
+
+  it('should keep cumulative histogram buckets in seconds', () => {
+    const metrics = createMetricsRegistry({ buckets: [0.1, 0.01] });
+
+    metrics.record({ path: 'a', rule: 'r', phase: 'input', decision: 'allowed', durationMs: 5 });
+    metrics.record({ path: 'a', rule: 'r', phase: 'input', decision: 'denied', durationMs: 50 });
+    metrics.record({ path: 'a', rule: 'r', phase: 'input', decision: 'denied', durationMs: 500 });
+
+    expect(metrics.snapshot().durations).toEqual([
+      {
+        path: 'a',
+        rule: 'r',
+        phase: 'input',
+        buckets: [
+          { le: 0.01, count: 1 },
+          { le: 0.1, count: 2 },
+        ],
+        sum: 0.555,
+        count: 3,
+      },
+    ]);
+  });
+
+  it('should render the Prometheus exposition format', () => {
+    const metrics = createMetricsRegistry({ prefix: 'app', buckets: [0.01] });
+
+    metrics.record({
+      path: 'users.get',
+      rule: 'has("admin")',
+      phase: 'input',
+      decision: 'denied',
+      durationMs: 2,
+    });
+
+    expect(metrics.toPrometheus()).toBe(
+      [
+        '# HELP app_decisions_total Authorization decisions by procedure, rule and outcome.',
+        '# TYPE app_decisions_total counter',
+        'app_decisions_total{path="users.get",rule="has(\\"admin\\")",phase="input",decision="denied"} 1',
+        '# HELP app_rule_duration_seconds Time spent evaluating rules, in seconds.',
+        '# TYPE app_rule_duration_seconds histogram',
+        'app_rule_duration_seconds_bucket{path="users.get",rule="has(\\"admin\\")",phase="input",le="0.01"} 1',
+        'app_rule_duration_seconds_bucket{path="users.get",rule="has(\\"admin\\")",phase="input",le="+Inf"} 1',
+        'app_rule_duration_seconds_sum{path="users.get",rule="has(\\"admin\\")",phase="input"} 0.002',
+        'app_rule_duration_seconds_count{path="users.get",rule="has(\\"admin\\")",phase="input"} 1',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should push snapshots to the collector on demand and on an interval', async () => {
+    vi.useFakeTimers();
+    const collect = vi.fn();
+    const metrics = createMetricsRegistry({ collector: { collect }, pushIntervalMs: 1000 });
+
+    metrics.record({ path: 'a', rule: 'r', phase: 'input', decision: 'allowed', durationMs: 1 });
+    await metrics.push();
+
+    expect(collect).toHaveBeenCalledWith(
+      expect.objectContaining({ decisions: [expect.objectContaining({ count: 1 })] })
+    );
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(collect).toHaveBeenCalledTimes(3);
+
+    metrics.close();
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(collect).toHaveBeenCalledTimes(3);
+  });
+
+  it('should reject push intervals that are not positive finite numbers', () => {
+    const collector = { collect: vi.fn() };
+
+    expect(() => createMetricsRegistry({ collector, pushIntervalMs: 0 })).toThrow(
+      'Invalid pushIntervalMs: 0'
+    );
+    expect(() => createMetricsRegistry({ collector, pushIntervalMs: -1000 })).toThrow(
+      'Invalid pushIntervalMs: -1000'
+    );
+    expect(() => createMetricsRegistry({ collector, pushIntervalMs: NaN })).toThrow(
+      'Invalid pushIntervalMs: NaN'
+    );
+    expect(() => createMetricsRegistry({ collector, pushIntervalMs: Infinity })).toThrow(
+      'Invalid pushIntervalMs: Infinity'
+    );
+  });
+
+  it('should log collector failures during interval pushes', async () => {
+    vi.useFakeTimers();
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const metrics = createMetricsRegistry({
+      collector: { collect: () => Promise.reject(new Error('offline')) },
+      pushIntervalMs: 1000,
+    });
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(consoleSpy).toHaveBeenCalledWith(
+      '[oRPC Shield] Failed to push metrics:',
+      new Error('offline')
+    );
+    metrics.close();
+    consoleSpy.mockRestore();
+  });
+
+  it('should log interval push failures through the logger', async () => {
+    vi.useFakeTimers();
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const metrics = createMetricsRegistry({
+      collector: { collect: () => Promise.reject(new Error('offline')) },
+      pushIntervalMs: 1000,
+      logger,
+    });
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(logger.error).toHaveBeenCalledWith(
+      { error: new Error('offline') },
+      'Failed to push metrics'
+    );
+    metrics.close();
+  });
+
+  it('should clear all series on reset', () => {
+    const metrics = createMetricsRegistry();
+
+    metrics.record({ path: 'a', rule: 'r', phase: 'input', decision: 'allowed', durationMs: 1 });
+    metrics.reset();
+
+    expect(metrics.snapshot()).toEqual({ decisions: [], durations: [] });
+  });
+});
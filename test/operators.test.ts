@@ -1,9 +1,23 @@
 /**
- * Tests for logic operators (and, or, not, chain, race)
+ * Tests for logic operators (and, or, not, chain, race, firstSettled and thresholds)
  */
 import { describe, expect, it, vi } from 'vitest';
-import { and, chain, not, or, race } from '../src/operators.js';
-import { allow, deny, rule } from '../src/rule.js';
+import {
+  AggregateRuleError,
+  and,
+  any,
+  atLeast,
+  chain,
+  firstSettled,
+  majority,
+  none,
+  not,
+  or,
+  race,
+  requiresAuth,
+  xor,
+} from '../src/operators.js';
+import { RuleDenialError, allow, deny, describeRule, formatRule, rule } from '../src/rule.js';
 // eslint-disable-next-line sort-imports
 import { createTestContext, delay, TestPaths, type TestContext } from './helpers/setup.js';
 import { TestRules } from './helpers/rules.js';
@@ -43,22 +57,117 @@ describe('and operator', () => {
     expect(result).toBe('Error message');
   });
 
-  it('should short-circuit on first failure', async () => {
-    const rule1 = rule<TestContext>()(() => true);
-    const rule2 = rule<TestContext>()(() => false);
-    const rule3 = vi.fn(() => true);
-    const mockRule3 = rule<TestContext>()(rule3);
+  it('should evaluate rules concurrently', async () => {
+    const started: number[] = [];
+    const slowRule = (id: number) =>
+      rule<TestContext>()(async () => {
+        started.push(id);
+        await delay(30);
+        return true;
+      });
 
-    const andRule = and(rule1, rule2, mockRule3);
-    const context = createTestContext();
+    const andRule = and(slowRule(1), slowRule(2), slowRule(3));
+    const startTime = Date.now();
 
-    await andRule.resolve({
-      ctx: context,
+    const result = await andRule.resolve({
+      ctx: createTestContext(),
       path: TestPaths.users.list,
       input: {},
     });
 
-    expect(rule3).not.toHaveBeenCalled();
+    expect(result).toBe(true);
+    expect(started).toEqual([1, 2, 3]);
+    expect(Date.now() - startTime).toBeLessThan(80);
+  });
+
+  it('should fail fast on the first denial and abort pending rules', async () => {
+    let receivedSignal: AbortSignal | undefined;
+    const slowRule = rule<TestContext>()(async ({ signal }) => {
+      receivedSignal = signal;
+      await delay(100);
+      return true;
+    });
+    const fastDeny = rule<TestContext>()(async () => {
+      await delay(10);
+      return 'Denied quickly';
+    });
+
+    const andRule = and(slowRule, fastDeny);
+    const startTime = Date.now();
+
+    const result = await andRule.resolve({
+      ctx: createTestContext(),
+      path: TestPaths.users.list,
+      input: {},
+    });
+
+    expect(result).toBe('Denied quickly');
+    expect(Date.now() - startTime).toBeLessThan(80);
+    expect(receivedSignal?.aborted).toBe(true);
+  });
+
+  it('should abort child rules when the parent signal aborts', async () => {
+    const controller = new AbortController();
+    let receivedSignal: AbortSignal | undefined;
+    const observedRule = rule<TestContext>()(({ signal }) => {
+      receivedSignal = signal;
+      return true;
+    });
+    const pendingRule = rule<TestContext>()(async () => {
+      await delay(20);
+      return true;
+    });
+
+    const resultPromise = and(observedRule, pendingRule).resolve({
+      ctx: createTestContext(),
+      path: TestPaths.users.list,
+      input: {},
+      signal: controller.signal,
+    });
+    controller.abort();
+    await resultPromise;
+
+    expect(receivedSignal?.aborted).toBe(true);
+  });
+
+  it('should not run rules once the signal is already aborted', async () => {
+    const resolver = vi.fn(() => true);
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await and(rule<TestContext>()(resolver)).resolve({
+      ctx: createTestContext(),
+      path: TestPaths.users.list,
+      input: {},
+      signal: controller.signal,
+    });
+
+    expect(result).toBeInstanceOf(Error);
+    expect((result as Error).message).toBe('Rule evaluation aborted');
+    expect(resolver).not.toHaveBeenCalled();
+  });
+
+  it('should not reuse cached results of aborted rules', async () => {
+    const resolver = vi.fn(
+      ({ signal }: { signal?: AbortSignal }) =>
+        new Promise<boolean>((resolve) => {
+          signal?.addEventListener('abort', () => resolve(false));
+          setTimeout(() => resolve(true), 20);
+        })
+    );
+    const slow = rule<TestContext>({ name: 'slow', cache: 'contextual' })(resolver);
+    const no = rule<TestContext>()(() => false);
+    const yes = rule<TestContext>()(() => true);
+
+    const result = await or(and(no, slow), and(yes, slow)).resolve({
+      ctx: createTestContext(),
+      path: TestPaths.users.list,
+      input: {},
+      cache: new Map(),
+    });
+
+    expect(result).toBe(true);
+    expect(resolver).toHaveBeenCalledTimes(2);
   });
 
   it('should handle async rules', async () => {
@@ -235,6 +344,98 @@ describe('or operator', () => {
   });
 });
 
+describe('or operator aggregation', () => {
+  const isAdmin = rule<TestContext>('isAdmin')(() => 'Not an admin');
+  const isOwner = rule<TestContext>('isOwner')(() => new Error('Not the owner'));
+  const isModerator = rule<TestContext>('isModerator')(() => false);
+
+  it('should aggregate every denial reason when requested', async () => {
+    const result = await or({ aggregate: true }, isAdmin, isOwner, isModerator).resolve({
+      ctx: createTestContext(),
+      path: TestPaths.posts.update,
+      input: {},
+    });
+
+    expect(result).toBeInstanceOf(AggregateRuleError);
+    const aggregate = result as AggregateRuleError;
+    expect(aggregate.reasons).toEqual([
+      { rule: 'isAdmin', message: 'Not an admin' },
+      { rule: 'isOwner', message: 'Not the owner' },
+      { rule: 'isModerator', message: 'Access denied' },
+    ]);
+    expect(aggregate.errors).toHaveLength(3);
+    expect(aggregate.message).toBe('All rules failed: Not an admin; Not the owner; Access denied');
+  });
+
+  it('should still pass when any rule passes', async () => {
+    const result = await or({ aggregate: true }, isAdmin, allow).resolve({
+      ctx: createTestContext(),
+      path: TestPaths.posts.update,
+      input: {},
+    });
+
+    expect(result).toBe(true);
+  });
+
+  it('should flatten nested aggregates', async () => {
+    const nested = or({ aggregate: true }, isAdmin, or({ aggregate: true }, isOwner, isModerator));
+
+    const result = await nested.resolve({
+      ctx: createTestContext(),
+      path: TestPaths.posts.update,
+      input: {},
+    });
+
+    expect((result as AggregateRuleError).reasons).toEqual([
+      { rule: 'isAdmin', message: 'Not an admin' },
+      { rule: 'isOwner', message: 'Not the owner' },
+      { rule: 'isModerator', message: 'Access denied' },
+    ]);
+  });
+
+  it('should aggregate race denials in rule order', async () => {
+    const slowDeny = rule<TestContext>()(async () => {
+      await delay(20);
+      return 'Slow denial';
+    });
+
+    const result = await race(slowDeny, isAdmin).resolve({
+      ctx: createTestContext(),
+      path: TestPaths.posts.update,
+      input: {},
+    });
+
+    expect((result as AggregateRuleError).reasons).toEqual([
+      { rule: 'anonymous', message: 'Slow denial' },
+      { rule: 'isAdmin', message: 'Not an admin' },
+    ]);
+  });
+
+  it('should identify operator alternatives by their expression', async () => {
+    const result = await or({ aggregate: true }, and(allow, isOwner), isAdmin).resolve({
+      ctx: createTestContext(),
+      path: TestPaths.posts.update,
+      input: {},
+    });
+
+    expect((result as AggregateRuleError).reasons).toEqual([
+      { rule: 'and(allow, isOwner)', message: 'Not the owner' },
+      { rule: 'isAdmin', message: 'Not an admin' },
+    ]);
+  });
+
+  it('should return an empty aggregate for empty rule array', async () => {
+    const result = await or({ aggregate: true }).resolve({
+      ctx: createTestContext(),
+      path: TestPaths.posts.update,
+      input: {},
+    });
+
+    expect(result).toBeInstanceOf(AggregateRuleError);
+    expect((result as AggregateRuleError).message).toBe('All rules failed');
+  });
+});
+
 describe('not operator', () => {
   it('should invert true to error', async () => {
     const notRule = not(allow);
@@ -309,6 +510,207 @@ describe('not operator', () => {
   });
 });
 
+describe('operator denial options', () => {
+  const isBanned = rule<TestContext>('isBanned')(() => true);
+  const params = () => ({
+    ctx: createTestContext(),
+    path: TestPaths.posts.create,
+    input: {},
+  });
+
+  it('should replace the not() denial message and attach a code', async () => {
+    const result = await not(isBanned, {
+      message: 'Your account is suspended',
+      code: 'FORBIDDEN',
+    }).resolve(params());
+
+    expect(result).toBeInstanceOf(RuleDenialError);
+    expect((result as RuleDenialError).message).toBe('Your account is suspended');
+    expect((result as RuleDenialError).code).toBe('FORBIDDEN');
+  });
+
+  it('should keep the original message when only a code is given', async () => {
+    const result = await and({ code: 'NOT_FOUND' }, allow, deny).resolve(params());
+
+    expect((result as RuleDenialError).message).toBe('Access denied');
+    expect((result as RuleDenialError).code).toBe('NOT_FOUND');
+  });
+
+  it('should keep aggregated reasons when replacing the message', async () => {
+    const result = await or(
+      { aggregate: true, message: 'Editors only' },
+      rule<TestContext>('isAdmin')(() => 'Not an admin'),
+      rule<TestContext>('isEditor')(() => 'Not an editor')
+    ).resolve(params());
+
+    expect((result as RuleDenialError).message).toBe('Editors only');
+    expect((result as RuleDenialError).reasons).toEqual([
+      { rule: 'isAdmin', message: 'Not an admin' },
+      { rule: 'isEditor', message: 'Not an editor' },
+    ]);
+  });
+
+  it('should keep the inner code unless the outer operator sets one', async () => {
+    const inner = not(isBanned, { code: 'FORBIDDEN' });
+
+    const kept = await chain({ message: 'Cannot post' }, inner).resolve(params());
+    const replaced = await chain({ code: 'UNAUTHORIZED' }, inner).resolve(params());
+
+    expect((kept as RuleDenialError).code).toBe('FORBIDDEN');
+    expect((replaced as RuleDenialError).code).toBe('UNAUTHORIZED');
+  });
+
+  it('should not change passing results', async () => {
+    expect(await not(deny, { message: 'Unused' }).resolve(params())).toBe(true);
+  });
+
+  it('should include message and code in descriptions', () => {
+    expect(describeRule(not(isBanned, { message: 'Suspended', code: 'FORBIDDEN' }))).toEqual({
+      type: 'not',
+      message: 'Suspended',
+      code: 'FORBIDDEN',
+      rules: [{ type: 'rule', name: 'isBanned', cache: 'no_cache' }],
+    });
+  });
+});
+
+describe('operators with decision results', () => {
+  const allowDecision = rule<TestContext>()(() => ({ allow: true }));
+  const upgradeRequired = rule<TestContext>()(() => ({
+    allow: false,
+    code: 'PAYMENT_REQUIRED',
+    message: 'Upgrade your plan',
+    data: { requiredPlan: 'pro' },
+  }));
+  const params = () => ({
+    ctx: createTestContext(),
+    path: TestPaths.posts.create,
+    input: {},
+  });
+
+  it('should treat allow decisions as passing', async () => {
+    expect(await and(allowDecision, allow).resolve(params())).toBe(true);
+    expect(await or(deny, allowDecision).resolve(params())).toBe(true);
+    expect(await not(allowDecision).resolve(params())).toBeInstanceOf(Error);
+    expect(await atLeast(2, allowDecision, allow).resolve(params())).toBe(true);
+  });
+
+  it('should propagate deny decisions unchanged', async () => {
+    const result = await chain(allow, upgradeRequired).resolve(params());
+
+    expect(result).toEqual({
+      allow: false,
+      code: 'PAYMENT_REQUIRED',
+      message: 'Upgrade your plan',
+      data: { requiredPlan: 'pro' },
+    });
+  });
+
+  it('should keep decision data when replacing the message', async () => {
+    const result = await and({ message: 'Pro feature' }, upgradeRequired).resolve(params());
+
+    expect(result).toBeInstanceOf(RuleDenialError);
+    expect((result as RuleDenialError).code).toBe('PAYMENT_REQUIRED');
+    expect((result as RuleDenialError).data).toEqual({ requiredPlan: 'pro' });
+  });
+
+  it('should aggregate decision messages', async () => {
+    const result = await or({ aggregate: true }, upgradeRequired, deny).resolve(params());
+
+    expect((result as RuleDenialError).reasons?.map(({ message }) => message)).toEqual([
+      'Upgrade your plan',
+      'Access denied',
+    ]);
+  });
+});
+
+describe('requiresAuth operator', () => {
+  const params = (ctx = createTestContext()) => ({ ctx, path: TestPaths.posts.create, input: {} });
+
+  it('should pass through allowed results', async () => {
+    const authenticated = requiresAuth(TestRules.isAuthenticated);
+
+    expect(await authenticated.resolve(params(createTestContext({ isAuthenticated: true })))).toBe(
+      true
+    );
+  });
+
+  it('should mark denials as unauthenticated', async () => {
+    const result = await requiresAuth(TestRules.isAuthenticated).resolve(params());
+
+    expect(result).toBeInstanceOf(RuleDenialError);
+    expect((result as RuleDenialError).unauthenticated).toBe(true);
+    expect((result as RuleDenialError).message).toBe('Authentication required');
+  });
+
+  it('should keep the wrapped denial message and details', async () => {
+    const tokenExpired = rule<TestContext>()(() => ({
+      allow: false,
+      message: 'Token expired',
+      data: { reason: 'expired' },
+    }));
+
+    const result = (await requiresAuth(tokenExpired).resolve(params())) as RuleDenialError;
+
+    expect(result.message).toBe('Token expired');
+    expect(result.data).toEqual({ reason: 'expired' });
+    expect(result.unauthenticated).toBe(true);
+  });
+
+  it('should pass through errors thrown by the wrapped rule', async () => {
+    const sessionStore = rule<TestContext>()(() => {
+      throw new Error('Session store unavailable');
+    });
+
+    const result = await requiresAuth(sessionStore).resolve(params());
+
+    expect(result).not.toBeInstanceOf(RuleDenialError);
+    expect((result as Error).message).toBe('Session store unavailable');
+  });
+
+  it('should prefer the unauthenticated denial inside and()', async () => {
+    const slowSession = rule<TestContext>()(async ({ ctx }) => {
+      await delay(20);
+      return ctx.isAuthenticated;
+    });
+
+    const result = await and(requiresAuth(slowSession), TestRules.isAdmin).resolve(params());
+
+    expect((result as RuleDenialError).unauthenticated).toBe(true);
+    expect((result as RuleDenialError).message).toBe('Authentication required');
+  });
+
+  it('should deny by authorization once authentication passes inside and()', async () => {
+    const slowSession = rule<TestContext>()(async () => {
+      await delay(20);
+      return true;
+    });
+
+    const result = await and(requiresAuth(slowSession), TestRules.isAdmin).resolve(params());
+
+    expect(result).toBe(false);
+  });
+
+  it('should stay unauthenticated through operators', async () => {
+    const viaToken = requiresAuth(deny);
+    const viaSession = requiresAuth(deny);
+
+    const chained = await chain({ message: 'Login first' }, viaToken, allow).resolve(params());
+    const aggregated = await or({ aggregate: true }, viaToken, viaSession).resolve(params());
+    const mixed = await or({ aggregate: true }, viaToken, deny).resolve(params());
+
+    expect((chained as RuleDenialError).unauthenticated).toBe(true);
+    expect((aggregated as RuleDenialError).unauthenticated).toBe(true);
+    expect((mixed as RuleDenialError).unauthenticated).toBe(false);
+  });
+
+  it('should be described as an operator', () => {
+    expect(formatRule(requiresAuth(rule('isAuthenticated')(() => true)))).toBe(
+      'requiresAuth(isAuthenticated)'
+    );
+  });
+});
+
 describe('chain operator', () => {
   it('should execute rules in sequence and return true if all pass', async () => {
     const rule1 = rule<TestContext>()(() => true);
@@ -415,6 +817,174 @@ describe('chain operator', () => {
 });
 
 describe('race operator', () => {
+  it('should resolve to the first rule that passes', async () => {
+    const slowAllow = rule<TestContext>()(async () => {
+      await delay(100);
+      return true;
+    });
+    const fastAllow = rule<TestContext>()(async () => {
+      await delay(10);
+      return true;
+    });
+
+    const raceRule = race(slowAllow, fastAllow);
+    const startTime = Date.now();
+
+    const result = await raceRule.resolve({
+      ctx: createTestContext(),
+      path: TestPaths.users.list,
+      input: {},
+    });
+
+    expect(result).toBe(true);
+    expect(Date.now() - startTime).toBeLessThan(80);
+  });
+
+  it('should prefer a slower allow over a faster denial', async () => {
+    const errorRule = rule<TestContext>()(async () => {
+      await delay(10);
+      return new Error('Fast error');
+    });
+    const slowRule = rule<TestContext>()(async () => {
+      await delay(50);
+      return true;
+    });
+
+    const raceRule = race(errorRule, slowRule);
+    const context = createTestContext();
+
+    const result = await raceRule.resolve({
+      ctx: context,
+      path: TestPaths.users.list,
+      input: {},
+    });
+
+    expect(result).toBe(true);
+  });
+
+  it('should return every denial in rule order when all rules deny', async () => {
+    const slowRule = rule<TestContext>()(async () => {
+      await delay(50);
+      return 'slow result';
+    });
+    const fastRule = rule<TestContext>()(async () => {
+      await delay(10);
+      return 'fast result';
+    });
+
+    const result = await race(slowRule, fastRule).resolve({
+      ctx: createTestContext(),
+      path: TestPaths.users.list,
+      input: {},
+    });
+
+    expect(result).toBeInstanceOf(AggregateRuleError);
+    expect((result as AggregateRuleError).message).toBe(
+      'All rules failed: slow result; fast result'
+    );
+  });
+
+  it('should return only the first denial when not aggregating', async () => {
+    const slowRule = rule<TestContext>()(async () => {
+      await delay(50);
+      return 'slow result';
+    });
+    const fastRule = rule<TestContext>()(async () => {
+      await delay(10);
+      return 'fast result';
+    });
+
+    const result = await race({ aggregate: false }, slowRule, fastRule).resolve({
+      ctx: createTestContext(),
+      path: TestPaths.users.list,
+      input: {},
+    });
+
+    expect(result).toBe('slow result');
+  });
+
+  it('should abort the remaining rules once one passes', async () => {
+    let receivedSignal: AbortSignal | undefined;
+    const slowPolicyService = rule<TestContext>()(async ({ signal }) => {
+      receivedSignal = signal;
+      await delay(100);
+      return true;
+    });
+    const cacheHit = rule<TestContext>()(() => true);
+
+    const result = await race(slowPolicyService, cacheHit).resolve({
+      ctx: createTestContext(),
+      path: TestPaths.users.list,
+      input: {},
+    });
+
+    expect(result).toBe(true);
+    expect(receivedSignal?.aborted).toBe(true);
+  });
+
+  it('should handle mixed async and sync rules', async () => {
+    const asyncRule = rule<TestContext>()(async () => {
+      await delay(50);
+      return 'async result';
+    });
+    const syncRule = rule<TestContext>()(() => true);
+
+    const raceRule = race(asyncRule, syncRule);
+    const context = createTestContext();
+
+    const result = await raceRule.resolve({
+      ctx: context,
+      path: TestPaths.users.list,
+      input: {},
+    });
+
+    // Sync rule should complete first
+    expect(result).toBe(true);
+  });
+
+  it('should return error for empty rule array', async () => {
+    const result = await race().resolve({
+      ctx: createTestContext(),
+      path: TestPaths.users.list,
+      input: {},
+    });
+
+    expect(result).toBeInstanceOf(Error);
+    expect((result as Error).message).toBe('All rules failed');
+  });
+
+  it('should be aliased as any', async () => {
+    const result = await any(deny, allow).resolve({
+      ctx: createTestContext(),
+      path: TestPaths.users.list,
+      input: {},
+    });
+
+    expect(result).toBe(true);
+    expect(describeRule(any(allow)).type).toBe('race');
+  });
+
+  it('should not reuse cached results of rules it aborted', async () => {
+    const slow = rule<TestContext>({ name: 'slow', cache: 'contextual' })(
+      ({ signal }) =>
+        new Promise<boolean>((resolve) => {
+          signal?.addEventListener('abort', () => resolve(false));
+          setTimeout(() => resolve(true), 20);
+        })
+    );
+
+    const result = await and(race(allow, slow), slow).resolve({
+      ctx: createTestContext(),
+      path: TestPaths.users.list,
+      input: {},
+      cache: new Map(),
+    });
+
+    expect(result).toBe(true);
+  });
+});
+
+describe('firstSettled operator', () => {
   it('should return result of first completed rule', async () => {
     const slowRule = rule<TestContext>()(async () => {
       await delay(100);
@@ -425,7 +995,7 @@ describe('race operator', () => {
       return 'fast result';
     });
 
-    const raceRule = race(slowRule, fastRule);
+    const raceRule = firstSettled(slowRule, fastRule);
     const context = createTestContext();
 
     const result = await raceRule.resolve({
@@ -441,7 +1011,7 @@ describe('race operator', () => {
     const syncRule1 = rule<TestContext>()(() => 'sync result 1');
     const syncRule2 = rule<TestContext>()(() => 'sync result 2');
 
-    const raceRule = race(syncRule1, syncRule2);
+    const raceRule = firstSettled(syncRule1, syncRule2);
     const context = createTestContext();
 
     const result = await raceRule.resolve({
@@ -459,12 +1029,14 @@ describe('race operator', () => {
       await delay(10);
       return new Error('Fast error');
     });
-    const slowRule = rule<TestContext>()(async () => {
+    let receivedSignal: AbortSignal | undefined;
+    const slowRule = rule<TestContext>()(async ({ signal }) => {
+      receivedSignal = signal;
       await delay(100);
       return true;
     });
 
-    const raceRule = race(errorRule, slowRule);
+    const raceRule = firstSettled(errorRule, slowRule);
     const context = createTestContext();
 
     const result = await raceRule.resolve({
@@ -475,26 +1047,149 @@ describe('race operator', () => {
 
     expect(result).toBeInstanceOf(Error);
     expect((result as Error).message).toBe('Fast error');
+    expect(receivedSignal?.aborted).toBe(true);
   });
+});
 
-  it('should handle mixed async and sync rules', async () => {
-    const asyncRule = rule<TestContext>()(async () => {
-      await delay(50);
-      return 'async result';
+describe('threshold operators', () => {
+  const yes = rule<TestContext>('yes')(() => true);
+  const no = rule<TestContext>('no')(() => false);
+  const broken = rule<TestContext>('broken')(() => {
+    throw new Error('Policy service unavailable');
+  });
+  const params = () => ({
+    ctx: createTestContext(),
+    path: TestPaths.posts.update,
+    input: {},
+  });
+
+  describe('atLeast', () => {
+    it('should pass when enough rules pass', async () => {
+      expect(await atLeast(2, yes, no, yes).resolve(params())).toBe(true);
     });
-    const syncRule = rule<TestContext>()(() => true);
 
-    const raceRule = race(asyncRule, syncRule);
-    const context = createTestContext();
+    it('should deny when too few rules pass', async () => {
+      const result = await atLeast(2, yes, no, no).resolve(params());
 
-    const result = await raceRule.resolve({
-      ctx: context,
-      path: TestPaths.users.list,
-      input: {},
+      expect(result).toBeInstanceOf(Error);
+      expect((result as Error).message).toBe('At least 2 of 3 rules must pass');
     });
 
-    // Sync rule should complete first
-    expect(result).toBe(true);
+    it('should exit early once the threshold is met', async () => {
+      let receivedSignal: AbortSignal | undefined;
+      const slowApprover = rule<TestContext>()(async ({ signal }) => {
+        receivedSignal = signal;
+        await delay(100);
+        return true;
+      });
+
+      const startTime = Date.now();
+      const result = await atLeast(2, yes, yes, slowApprover).resolve(params());
+
+      expect(result).toBe(true);
+      expect(Date.now() - startTime).toBeLessThan(80);
+      expect(receivedSignal?.aborted).toBe(true);
+    });
+
+    it('should exit early once the threshold can no longer be met', async () => {
+      const slowApprover = rule<TestContext>()(async () => {
+        await delay(100);
+        return true;
+      });
+
+      const startTime = Date.now();
+      const result = await atLeast(2, no, no, slowApprover).resolve(params());
+
+      expect(result).toBeInstanceOf(Error);
+      expect(Date.now() - startTime).toBeLessThan(80);
+    });
+
+    it('should reject thresholds that are not an integer from 1 to the number of rules', () => {
+      expect(() => atLeast(3, yes, no)).toThrow(
+        'Invalid atLeast threshold: 3 (expected an integer from 1 to 2)'
+      );
+      expect(() => atLeast(0, yes, no)).toThrow('Invalid atLeast threshold: 0');
+      expect(() => atLeast(-1, yes)).toThrow('Invalid atLeast threshold: -1');
+      expect(() => atLeast(1.5, yes, no)).toThrow('Invalid atLeast threshold: 1.5');
+      expect(() => atLeast(NaN, yes)).toThrow('Invalid atLeast threshold: NaN');
+      expect(() => atLeast(0)).toThrow('Invalid atLeast threshold: 0');
+    });
+
+    it('should describe the threshold', () => {
+      const fourEyes = atLeast(2, { name: 'fourEyes' }, yes, no);
+
+      expect(describeRule(fourEyes)).toMatchObject({
+        type: 'atLeast',
+        name: 'fourEyes',
+        threshold: 2,
+      });
+      expect(formatRule(atLeast(2, yes, no))).toBe('atLeast(2, yes, no)');
+    });
+  });
+
+  describe('majority', () => {
+    it('should pass when more than half pass', async () => {
+      expect(await majority(yes, yes, no).resolve(params())).toBe(true);
+    });
+
+    it('should deny on a tie', async () => {
+      const result = await majority(yes, no).resolve(params());
+
+      expect(result).toBeInstanceOf(Error);
+      expect((result as Error).message).toBe('A majority of rules must pass');
+    });
+
+    it('should deny without rules', async () => {
+      expect(await majority().resolve(params())).toBeInstanceOf(Error);
+    });
+  });
+
+  describe('none', () => {
+    it('should pass when every rule denies', async () => {
+      expect(await none(no, no).resolve(params())).toBe(true);
+    });
+
+    it('should deny as soon as one rule passes', async () => {
+      const result = await none(no, yes).resolve(params());
+
+      expect(result).toBeInstanceOf(Error);
+      expect((result as Error).message).toBe('No rule may pass');
+    });
+
+    it('should pass without rules', async () => {
+      expect(await none().resolve(params())).toBe(true);
+    });
+
+    it('should return the error of a rule that throws instead of passing', async () => {
+      const result = await none(no, broken).resolve(params());
+
+      expect(result).toBeInstanceOf(Error);
+      expect((result as Error).message).toBe('Policy service unavailable');
+    });
+  });
+
+  describe('xor', () => {
+    it('should pass when exactly one rule passes', async () => {
+      expect(await xor(no, yes, no).resolve(params())).toBe(true);
+    });
+
+    it('should deny when several rules pass', async () => {
+      const result = await xor(yes, no, yes).resolve(params());
+
+      expect(result).toBeInstanceOf(Error);
+      expect((result as Error).message).toBe('Exactly one rule must pass');
+    });
+
+    it('should deny when no rule passes', async () => {
+      expect(await xor(no, no).resolve(params())).toBeInstanceOf(Error);
+    });
+
+    it('should return the error of a rule that throws instead of passing', async () => {
+      const result = await xor(yes, broken).resolve(params());
+
+      expect(result).toBeInstanceOf(Error);
+      expect((result as Error).message).toBe('Policy service unavailable');
+    });
   });
 });
 
@@ -625,3 +1320,74 @@ describe('operator error handling', () => {
     expect((result as Error).message).toBe('Async nested error');
   });
 });
+
+describe('operator metadata', () => {
+  const isAuthenticated = rule<TestContext>('isAuthenticated')((params) => {
+    return params.ctx.isAuthenticated;
+  });
+  const isAdmin = rule<TestContext>('isAdmin')(() => false);
+  const isOwner = rule<TestContext>('isOwner')(() => true);
+
+  it('should accept leading metadata on variadic operators', async () => {
+    const canModify = and(
+      { name: 'canModify', description: 'Owners and admins', tags: ['posts'] },
+      isAuthenticated,
+      or(isAdmin, isOwner)
+    );
+
+    expect(canModify.name).toBe('canModify');
+    expect(
+      await canModify.resolve({
+        ctx: createTestContext({ isAuthenticated: true }),
+        path: TestPaths.posts.update,
+        input: {},
+      })
+    ).toBe(true);
+  });
+
+  it('should describe the full operator tree', () => {
+    const tree = chain(
+      { name: 'canPublish' },
+      isAuthenticated,
+      or(isAdmin, not(isOwner, { name: 'notOwner' })),
+      race(isOwner, allow)
+    );
+
+    expect(describeRule(tree)).toEqual({
+      type: 'chain',
+      name: 'canPublish',
+      rules: [
+        { type: 'rule', name: 'isAuthenticated', cache: 'no_cache' },
+        {
+          type: 'or',
+          rules: [
+            { type: 'rule', name: 'isAdmin', cache: 'no_cache' },
+            {
+              type: 'not',
+              name: 'notOwner',
+              rules: [{ type: 'rule', name: 'isOwner', cache: 'no_cache' }],
+            },
+          ],
+        },
+        {
+          type: 'race',
+          rules: [
+            { type: 'rule', name: 'isOwner', cache: 'no_cache' },
+            { type: 'rule', name: 'allow', cache: 'no_cache' },
+          ],
+        },
+      ],
+    });
+    expect(JSON.parse(JSON.stringify(tree))).toEqual(describeRule(tree));
+  });
+
+  it('should format unnamed operators as expressions', () => {
+    const tree = and(
+      isAuthenticated,
+      or(isAdmin, not(isOwner)),
+      rule<TestContext>()(() => true)
+    );
+
+    expect(formatRule(tree)).toBe('and(isAuthenticated, or(isAdmin, not(isOwner)), anonymous)');
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Tests for checking rule trees against oRPC routers
+ */
+import { describe, expect, it } from 'vitest';
+import { checkRulesAgainstRouter, formatRouterMismatch } from '../src/router.js';
+import { lazy, os } from '@orpc/server';
+import { allow, deny } from '../src/rule.js';
+
+const procedure = os.handler(() => 'ok');
+
+const router = {
+  users: {
+    list: procedure,
+    profile: { get: procedure, update: procedure },
+  },
+  admin: { stats: procedure, delete: procedure },
+  reports: lazy(() => Promise.resolve({ default: { daily: procedure } })),
+};
+
+describe('checkRulesAgainstRouter', () => {
+  it('should report nothing when every procedure has a rule', () => {
+    const report = checkRulesAgainstRouter(
+      {
+        users: { list: allow, profile: { '*': allow } },
+        admin: { $all: deny, stats: allow },
+        '*.delete': deny,
+      },
+      router
+    );
+
+    expect(report).toEqual({
+      unknownRules: [],
+      unprotectedProcedures: [],
+      fallbackProcedures: [],
+      lazyRouters: ['reports'],
+    });
+  });
+
+  it('should report rules for unknown procedures', () => {
+    const report = checkRulesAgainstRouter(
+      {
+        users: { list: allow, proflie: { get: allow }, '**': allow },
+        billing: { $all: deny },
+        'admin.remove': deny,
+        admin: { '**': allow },
+      },
+      router
+    );
+
+    expect(report.unknownRules).toEqual(['users.proflie.get', 'admin.remove', 'billing.$all']);
+  });
+
+  it('should report procedures without rules or guards', () => {
+    const report = checkRulesAgainstRouter(
+      { users: { list: allow, profile: { get: allow } } },
+      router
+    );
+
+    expect(report.unprotectedProcedures).toEqual([
+      'users.profile.update',
+      'admin.stats',
+      'admin.delete',
+    ]);
+  });
+
+  it('should treat procedures covered by a namespace fallback as protected', () => {
+    const report = checkRulesAgainstRouter(
+      { users: { $fallback: allow }, admin: { $fallback: deny }, billing: { $fallback: deny } },
+      router
+    );
+
+    expect(report.unprotectedProcedures).toEqual([]);
+    expect(report.unknownRules).toEqual(['billing.$fallback']);
+  });
+
+  it('should list procedures covered only by guards as relying on the fallback', () => {
+    const report = checkRulesAgainstRouter(
+      { users: { $all: allow, list: allow }, admin: { $all: deny } },
+      router
+    );
+
+    expect(report.unprotectedProcedures).toEqual([]);
+    expect(report.fallbackProcedures).toEqual([
+      'users.profile.get',
+      'users.profile.update',
+      'admin.stats',
+      'admin.delete',
+    ]);
+  });
+
+  it('should not report rules below lazy routers as unknown', () => {
+    const report = checkRulesAgainstRouter(
+      {
+        reports: { daily: allow, weekly: allow },
+        '**.export': allow,
+        '/^reports\\./': allow,
+        'reports.daily.extra': allow,
+        'users.list.extra': allow,
+      },
+      router
+    );
+
+    expect(report.unknownRules).toEqual(['users.list.extra']);
+  });
+
+  it('should check lazy routers once they are loaded', async () => {
+    const { unlazyRouter } = await import('@orpc/server');
+    const report = checkRulesAgainstRouter(
+      { reports: { weekly: allow }, '**': allow },
+      await unlazyRouter(router)
+    );
+
+    expect(report.lazyRouters).toEqual([]);
+    expect(report.unknownRules).toEqual(['reports.weekly']);
+  });
+});
+
+describe('formatRouterMismatch', () => {
+  it('should describe every problem', () => {
+    expect(
+      formatRouterMismatch({
+        unknownRules: ['users.proflie'],
+        unprotectedProcedures: ['admin.stats', 'admin.delete'],
+        fallbackProcedures: ['admin.stats', 'admin.delete'],
+        lazyRouters: [],
+      })
+    ).toBe(
+      'Rule tree does not match router (rules for unknown procedures: users.proflie; ' +
+        'procedures without rules: admin.stats, admin.delete)'
+    );
+  });
+
+  it('should return undefined when the rule tree matches', () => {
+    expect(
+      formatRouterMismatch({
+        unknownRules: [],
+        unprotectedProcedures: [],
+        fallbackProcedures: [],
+        lazyRouters: ['a'],
+      })
+    ).toBeUndefined();
+  });
+});
@@ -1,11 +1,20 @@
 /**
  * Tests for rule constructors and built-in rules
  */
-import { describe, expect, it } from 'vitest';
-import { allow, allowAll, deny, denyWithMessage, rule } from '../src/rule.js';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  allow,
+  allowAll,
+  deny,
+  denyWithMessage,
+  describeRule,
+  formatRule,
+  isRuleFailure,
+  rule,
+} from '../src/rule.js';
 // eslint-disable-next-line sort-imports
 import { createTestContext, type TestContext, TestPaths } from './helpers/setup.js';
-import type { Path } from '../src/types.js';
+import type { Path, RuleCache } from '../src/types.js';
 
 describe('rule constructor', () => {
   it('should create a rule from a resolver function', () => {
@@ -424,4 +433,171 @@ describe('rule edge cases', () => {
 
     expect(result).toBe(true);
   });
+
+  it('should tell thrown errors apart from returned denials', async () => {
+    const params = { ctx: createTestContext(), path: TestPaths.users.list, input: {} };
+    const throwing = rule<TestContext>()(() => {
+      throw new Error('lookup failed');
+    });
+
+    expect(isRuleFailure(await throwing.resolve(params))).toBe(true);
+    expect(isRuleFailure(await denyWithMessage('Nope').resolve(params))).toBe(false);
+    expect(isRuleFailure(false)).toBe(false);
+  });
+});
+
+describe('rule caching', () => {
+  it('should run the resolver every time with no_cache', async () => {
+    const resolver = vi.fn(() => true);
+    const testRule = rule<TestContext>({ cache: 'no_cache' })(resolver);
+    const cache: RuleCache = new Map();
+    const params = { ctx: createTestContext(), path: TestPaths.users.list, input: {}, cache };
+
+    await testRule.resolve(params);
+    await testRule.resolve(params);
+
+    expect(resolver).toHaveBeenCalledTimes(2);
+    expect(cache.size).toBe(0);
+  });
+
+  it('should share one result per request with contextual caching', async () => {
+    const resolver = vi.fn(() => true);
+    const testRule = rule<TestContext>({ cache: 'contextual' })(resolver);
+    const cache: RuleCache = new Map();
+    const ctx = createTestContext();
+
+    await testRule.resolve({ ctx, path: TestPaths.users.list, input: { id: '1' }, cache });
+    const result = await testRule.resolve({
+      ctx,
+      path: TestPaths.users.get,
+      input: { id: '2' },
+      cache,
+    });
+
+    expect(result).toBe(true);
+    expect(resolver).toHaveBeenCalledTimes(1);
+  });
+
+  it('should key strict caching by path and input', async () => {
+    const resolver = vi.fn(() => true);
+    const testRule = rule<TestContext>({ cache: 'strict' })(resolver);
+    const cache: RuleCache = new Map();
+    const ctx = createTestContext();
+
+    await testRule.resolve({ ctx, path: TestPaths.users.get, input: { id: '1' }, cache });
+    await testRule.resolve({ ctx, path: TestPaths.users.get, input: { id: '1' }, cache });
+    await testRule.resolve({ ctx, path: TestPaths.users.get, input: { id: '2' }, cache });
+
+    expect(resolver).toHaveBeenCalledTimes(2);
+  });
+
+  it('should include the handler output in strict cache keys', async () => {
+    const resolver = vi.fn(() => true);
+    const testRule = rule<TestContext>({ cache: 'strict' })(resolver);
+    const cache: RuleCache = new Map();
+    const params = { ctx: createTestContext(), path: TestPaths.users.get, input: {}, cache };
+
+    await testRule.resolve({ ...params, output: { ownerId: '1' } });
+    await testRule.resolve({ ...params, output: { ownerId: '2' } });
+
+    expect(resolver).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share pending results between concurrent evaluations', async () => {
+    const resolver = vi.fn(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      return 'denied';
+    });
+    const testRule = rule<TestContext>({ cache: 'contextual' })(resolver);
+    const params = {
+      ctx: createTestContext(),
+      path: TestPaths.users.list,
+      input: {},
+      cache: new Map() as RuleCache,
+    };
+
+    const results = await Promise.all([testRule.resolve(params), testRule.resolve(params)]);
+
+    expect(results).toEqual(['denied', 'denied']);
+    expect(resolver).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not cache when no request cache is provided', async () => {
+    const resolver = vi.fn(() => true);
+    const testRule = rule<TestContext>({ cache: 'contextual' })(resolver);
+    const params = { ctx: createTestContext(), path: TestPaths.users.list, input: {} };
+
+    await testRule.resolve(params);
+    await testRule.resolve(params);
+
+    expect(resolver).toHaveBeenCalledTimes(2);
+  });
+
+  it('should skip strict caching for inputs that cannot be serialized', async () => {
+    const resolver = vi.fn(() => true);
+    const testRule = rule<TestContext>({ cache: 'strict' })(resolver);
+    const input: Record<string, unknown> = {};
+    input.self = input;
+    const params = {
+      ctx: createTestContext(),
+      path: TestPaths.users.list,
+      input,
+      cache: new Map(),
+    };
+
+    await testRule.resolve(params);
+    await testRule.resolve(params);
+
+    expect(resolver).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('rule metadata', () => {
+  it('should accept a name as shorthand', () => {
+    const isAdmin = rule<TestContext>('isAdmin')(() => true);
+
+    expect(isAdmin.name).toBe('isAdmin');
+    expect(String(isAdmin)).toBe('isAdmin');
+  });
+
+  it('should describe name, description, tags and cache mode', () => {
+    const isOrgMember = rule<TestContext>({
+      name: 'isOrgMember',
+      description: 'Caller belongs to the organization',
+      tags: ['org', 'db'],
+      cache: 'contextual',
+    })(() => true);
+
+    expect(isOrgMember.describe()).toEqual({
+      type: 'rule',
+      name: 'isOrgMember',
+      description: 'Caller belongs to the organization',
+      tags: ['org', 'db'],
+      cache: 'contextual',
+    });
+    expect(JSON.parse(JSON.stringify(isOrgMember))).toEqual(isOrgMember.describe());
+  });
+
+  it('should render anonymous rules', () => {
+    const anonymous = rule<TestContext>()(() => true);
+
+    expect(anonymous.describe()).toEqual({ type: 'rule', cache: 'no_cache' });
+    expect(formatRule(anonymous)).toBe('anonymous');
+  });
+
+  it('should name built-in rules', () => {
+    expect(allow.name).toBe('allow');
+    expect(deny.name).toBe('deny');
+    expect(describeRule(denyWithMessage('Nope'))).toMatchObject({
+      name: 'denyWithMessage',
+      description: 'Nope',
+    });
+  });
+
+  it('should describe custom rule implementations without describe()', () => {
+    const custom = { name: 'custom', resolve: () => Promise.resolve(true) };
+
+    expect(describeRule(custom)).toEqual({ type: 'rule', name: 'custom' });
+    expect(formatRule({ resolve: () => Promise.resolve(true) })).toBe('anonymous');
+  });
 });
@@ -2,10 +2,18 @@
  * Tests for shield middleware generation and execution
  */
 /* eslint-disable @typescript-eslint/no-unsafe-argument */
-import { describe, expect, it, vi } from 'vitest';
-import { ShieldError, shield, shieldDebug } from '../src/shield.js';
-import { allow, deny, rule } from '../src/rule.js';
-import { and, not, or } from '../src/operators.js';
+import { describe, expect, expectTypeOf, it, vi } from 'vitest';
+import {
+  ShieldError,
+  assertRulesMatchRouter,
+  describeRules,
+  shield,
+  shieldDebug,
+  shieldForORPC,
+} from '../src/shield.js';
+import { allow, deny, denyWithMessage, rule } from '../src/rule.js';
+import { and, chain, not, or, requiresAuth } from '../src/operators.js';
+import { ORPCError, lazy, os, type } from '@orpc/server';
 import {
   MockMiddlewareExecutor,
   type TestContext,
@@ -13,9 +21,17 @@ import {
   createAdminContext,
   createAuthenticatedContext,
   createTestContext,
+  createTestTracer,
 } from './helpers/setup.js';
 import { TestRules } from './helpers/rules.js';
-import type { IRules } from '../src/types.js';
+import { createMetricsRegistry } from '../src/metrics.js';
+import type {
+  IRules,
+  IRulesFor,
+  InferProcedureInput,
+  Path,
+  ShieldHookEvent,
+} from '../src/types.js';
 
 describe('shield middleware creation', () => {
   it('should create middleware function from rule tree', () => {
@@ -216,7 +232,32 @@ describe('shield middleware execution', () => {
       ctx: context,
       path: TestPaths.users.create,
       input,
+      cache: expect.any(Map),
+    });
+  });
+
+  it('should forward the request abort signal to rules', async () => {
+    let receivedSignal: AbortSignal | undefined;
+    const testRule = rule<TestContext>()(({ signal }) => {
+      receivedSignal = signal;
+      return true;
     });
+
+    const controller = new AbortController();
+    const middleware = shield<TestContext>({ users: { list: testRule } });
+
+    await middleware(
+      {
+        context: createTestContext(),
+        path: TestPaths.users.list,
+        signal: controller.signal,
+        next: () => ({ output: undefined, context: {} }),
+      } as any,
+      {},
+      (() => {}) as any
+    );
+
+    expect(receivedSignal).toBe(controller.signal);
   });
 
   it('should handle async rules', async () => {
@@ -511,6 +552,31 @@ describe('shield options', () => {
       consoleSpy.mockRestore();
     });
 
+    it('should log the rule evaluated for a path', async () => {
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const isAdmin = rule<TestContext>('isAdmin')(() => true);
+
+      const rules: IRules<TestContext> = {
+        users: {
+          list: and(TestRules.isAuthenticated, isAdmin),
+        },
+      };
+
+      const executor = new MockMiddlewareExecutor<TestContext>();
+      executor.use(shield(rules, { debug: true }));
+
+      await executor.execute({
+        context: createTestContext(),
+        path: TestPaths.users.list,
+      });
+
+      expect(consoleSpy).toHaveBeenCalledWith(
+        '[oRPC Shield] Evaluating rule and(anonymous, isAdmin) for users.list'
+      );
+
+      consoleSpy.mockRestore();
+    });
+
     it('should log fallback rule usage', async () => {
       const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
 
@@ -717,3 +783,1184 @@ describe('shield middleware integration', () => {
     expect(receivedContext).toBe(originalContext);
   });
 });
+
+describe('shield rule caching', () => {
+  it('should evaluate a cached rule once per request across composed operators', async () => {
+    const resolver = vi.fn(() => true);
+    const isMember = rule<TestContext>({ cache: 'contextual' })(resolver);
+
+    const rules: IRules<TestContext> = {
+      users: {
+        list: and(isMember, or(isMember, deny), not(not(isMember))),
+      },
+    };
+
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(shield(rules));
+
+    const first = await executor.execute({
+      context: createTestContext(),
+      path: TestPaths.users.list,
+    });
+    expect(first.success).toBe(true);
+    expect(resolver).toHaveBeenCalledTimes(1);
+
+    // A new invocation gets a fresh cache
+    await executor.execute({
+      context: createTestContext(),
+      path: TestPaths.users.list,
+    });
+    expect(resolver).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('describeRules', () => {
+  it('should describe every rule in the tree', () => {
+    const isAdmin = rule<TestContext>({ name: 'isAdmin', tags: ['admin'] })(() => true);
+
+    const rules: IRules<TestContext> = {
+      users: {
+        list: allow,
+        admin: {
+          delete: and({ name: 'canDelete' }, isAdmin, not(deny)),
+        },
+      },
+    };
+
+    expect(describeRules(rules)).toEqual({
+      users: {
+        list: { type: 'rule', name: 'allow', cache: 'no_cache' },
+        admin: {
+          delete: {
+            type: 'and',
+            name: 'canDelete',
+            rules: [
+              { type: 'rule', name: 'isAdmin', tags: ['admin'], cache: 'no_cache' },
+              { type: 'not', rules: [{ type: 'rule', name: 'deny', cache: 'no_cache' }] },
+            ],
+          },
+        },
+      },
+    });
+  });
+});
+
+describe('shield aggregated denials', () => {
+  const isAdmin = rule<TestContext>('isAdmin')(() => 'Requires admin role');
+  const isOwner = rule<TestContext>('isOwner')(() => 'Requires ownership');
+  const rules: IRules<TestContext> = {
+    posts: {
+      update: or({ aggregate: true }, isAdmin, isOwner),
+    },
+  };
+
+  it('should expose each reason on ShieldError', async () => {
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(shield(rules));
+
+    const result = await executor.execute({
+      context: createTestContext(),
+      path: TestPaths.posts.update,
+    });
+
+    expect(result.error).toBeInstanceOf(ShieldError);
+    expect((result.error as ShieldError).reasons).toEqual([
+      { rule: 'isAdmin', message: 'Requires admin role' },
+      { rule: 'isOwner', message: 'Requires ownership' },
+    ]);
+  });
+
+  it('should surface reasons in ORPCError data when denyErrorCode is set', async () => {
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(shieldForORPC(rules));
+
+    const result = await executor.execute({
+      context: createTestContext(),
+      path: TestPaths.posts.update,
+    });
+
+    expect(result.error).toBeInstanceOf(ORPCError);
+    const error = result.error as ORPCError<string, unknown>;
+    expect(error.code).toBe('FORBIDDEN');
+    expect(error.data).toEqual({
+      reasons: [
+        { rule: 'isAdmin', message: 'Requires admin role' },
+        { rule: 'isOwner', message: 'Requires ownership' },
+      ],
+    });
+  });
+
+  it('should not attach data for single denials', async () => {
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(shieldForORPC({ posts: { update: isAdmin } }));
+
+    const result = await executor.execute({
+      context: createTestContext(),
+      path: TestPaths.posts.update,
+    });
+
+    expect((result.error as ORPCError<string, unknown>).data).toBeUndefined();
+  });
+});
+
+describe('shield denial codes', () => {
+  const isBanned = rule<TestContext>()(() => true);
+
+  it('should surface the operator message and code as ORPCError', async () => {
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(
+      shield({
+        posts: {
+          create: not(isBanned, { message: 'Your account is suspended', code: 'FORBIDDEN' }),
+        },
+      })
+    );
+
+    const result = await executor.execute({
+      context: createTestContext(),
+      path: TestPaths.posts.create,
+    });
+
+    expect(result.error).toBeInstanceOf(ORPCError);
+    expect((result.error as ORPCError<string, unknown>).code).toBe('FORBIDDEN');
+    expect(result.error?.message).toBe('Your account is suspended');
+  });
+
+  it('should prefer the rule code over denyErrorCode', async () => {
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(
+      shieldForORPC({
+        posts: { get: and({ code: 'NOT_FOUND', message: 'Post not found' }, deny) },
+      })
+    );
+
+    const result = await executor.execute({
+      context: createTestContext(),
+      path: TestPaths.posts.get,
+    });
+
+    expect((result.error as ORPCError<string, unknown>).code).toBe('NOT_FOUND');
+  });
+
+  it('should keep ShieldError for message-only denials without denyErrorCode', async () => {
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(shield({ posts: { create: not(isBanned, { message: 'Suspended' }) } }));
+
+    const result = await executor.execute({
+      context: createTestContext(),
+      path: TestPaths.posts.create,
+    });
+
+    expect(result.error).toBeInstanceOf(ShieldError);
+    expect(result.error?.message).toBe('Suspended');
+  });
+});
+
+describe('shield structured denials', () => {
+  it('should map deny decisions to ORPCError with code, message and data', async () => {
+    const requiresRole = rule<TestContext>()(() => ({
+      allow: false,
+      code: 'FORBIDDEN',
+      message: 'Admins only',
+      data: { requiredRole: 'admin' },
+    }));
+
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(shield({ admin: { stats: requiresRole } }));
+
+    const result = await executor.execute({
+      context: createTestContext(),
+      path: TestPaths.admin.stats,
+    });
+
+    const error = result.error as ORPCError<string, unknown>;
+    expect(error).toBeInstanceOf(ORPCError);
+    expect(error.code).toBe('FORBIDDEN');
+    expect(error.message).toBe('Admins only');
+    expect(error.data).toEqual({ requiredRole: 'admin' });
+  });
+
+  it('should keep ShieldError for deny decisions without a code', async () => {
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(shield({ admin: { stats: rule<TestContext>()(() => ({ allow: false })) } }));
+
+    const result = await executor.execute({
+      context: createTestContext(),
+      path: TestPaths.admin.stats,
+    });
+
+    expect(result.error).toBeInstanceOf(ShieldError);
+    expect(result.error?.message).toBe('Access denied');
+  });
+
+  it('should allow access for allow decisions', async () => {
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(shield({ admin: { stats: rule<TestContext>()(() => ({ allow: true })) } }));
+
+    const result = await executor.execute({
+      context: createTestContext(),
+      path: TestPaths.admin.stats,
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it.each([
+    ['shield', {}],
+    ['denyErrorCode', { denyErrorCode: 'FORBIDDEN' as const }],
+    ['allowExternalErrors: false', { allowExternalErrors: false }],
+  ])('should preserve ORPCError thrown by rules verbatim (%s)', async (_label, options) => {
+    const thrown = new ORPCError('UNAUTHORIZED', {
+      message: 'Please log in',
+      data: { loginUrl: '/login' },
+    });
+    const requiresLogin = rule<TestContext>()(() => {
+      throw thrown;
+    });
+
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(shield({ users: { list: requiresLogin } }, options));
+
+    const result = await executor.execute({
+      context: createTestContext(),
+      path: TestPaths.users.list,
+    });
+
+    expect(result.error).toBe(thrown);
+  });
+});
+
+describe('shield authentication errors', () => {
+  const rules: IRules<TestContext> = {
+    admin: {
+      stats: chain(requiresAuth(TestRules.isAuthenticated), TestRules.isAdmin),
+    },
+  };
+
+  const execute = (middleware: ReturnType<typeof shield<TestContext>>, context: TestContext) => {
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(middleware);
+    return executor.execute({ context, path: TestPaths.admin.stats });
+  };
+
+  it('should surface unauthenticated callers as UNAUTHORIZED and others as FORBIDDEN', async () => {
+    const middleware = shieldForORPC(rules);
+
+    const anonymous = await execute(middleware, createTestContext());
+    const user = await execute(middleware, createAuthenticatedContext());
+    const admin = await execute(middleware, createAdminContext());
+
+    expect((anonymous.error as ORPCError<string, unknown>).code).toBe('UNAUTHORIZED');
+    expect((user.error as ORPCError<string, unknown>).code).toBe('FORBIDDEN');
+    expect(admin.success).toBe(true);
+  });
+
+  it('should use UNAUTHORIZED even without denyErrorCode', async () => {
+    const middleware = shield(rules);
+
+    const anonymous = await execute(middleware, createTestContext());
+    const user = await execute(middleware, createAuthenticatedContext());
+
+    expect((anonymous.error as ORPCError<string, unknown>).code).toBe('UNAUTHORIZED');
+    expect(user.error).toBeInstanceOf(ShieldError);
+  });
+
+  it('should honour a custom unauthenticatedErrorCode', async () => {
+    const middleware = shieldForORPC(rules, { unauthenticatedErrorCode: 'NOT_FOUND' });
+
+    const anonymous = await execute(middleware, createTestContext());
+
+    expect((anonymous.error as ORPCError<string, unknown>).code).toBe('NOT_FOUND');
+  });
+
+  it('should map unauthenticated decisions returned by rules', async () => {
+    const hasSession = rule<TestContext>()(({ ctx }) =>
+      ctx.isAuthenticated ? true : { allow: false, unauthenticated: true, message: 'No session' }
+    );
+    const middleware = shieldForORPC({ admin: { stats: hasSession } });
+
+    const anonymous = await execute(middleware, createTestContext());
+
+    expect((anonymous.error as ORPCError<string, unknown>).code).toBe('UNAUTHORIZED');
+    expect((anonymous.error as ORPCError<string, unknown>).message).toBe('No session');
+  });
+});
+
+describe('shield wildcard rules', () => {
+  const execute = async (rules: IRules<TestContext>, path: Path, fallbackRule = allow) => {
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(shield(rules, { fallbackRule }));
+    return executor.execute({ context: createTestContext(), path });
+  };
+
+  it('should apply a wildcard rule to every procedure of a namespace', async () => {
+    const rules: IRules<TestContext> = { admin: { '*': deny } };
+
+    expect((await execute(rules, ['admin', 'stats'])).success).toBe(false);
+    expect((await execute(rules, ['admin', 'users'])).success).toBe(false);
+    expect((await execute(rules, ['users', 'list'])).success).toBe(true);
+  });
+
+  it('should prefer exact keys over the wildcard', async () => {
+    const rules: IRules<TestContext> = { admin: { '*': deny, health: allow } };
+
+    expect((await execute(rules, ['admin', 'health'])).success).toBe(true);
+    expect((await execute(rules, ['admin', 'stats'])).success).toBe(false);
+  });
+
+  it('should match a single segment only', async () => {
+    const rules: IRules<TestContext> = { admin: { '*': allow } };
+
+    const result = await execute(rules, ['admin', 'users', 'list'], deny);
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should match wildcards at any nesting level', async () => {
+    const rules: IRules<TestContext> = {
+      '*': { list: allow, delete: deny },
+      api: { '*': { users: { '*': deny } } },
+    };
+
+    expect((await execute(rules, ['posts', 'list'], deny)).success).toBe(true);
+    expect((await execute(rules, ['posts', 'delete'])).success).toBe(false);
+    expect((await execute(rules, ['api', 'v1', 'users', 'create'])).success).toBe(false);
+  });
+
+  it('should fall back to the wildcard when an exact branch has no matching rule', async () => {
+    const rules: IRules<TestContext> = {
+      admin: { users: { list: allow }, '*': { get: deny } },
+    };
+
+    expect((await execute(rules, ['admin', 'users', 'list'])).success).toBe(true);
+    expect((await execute(rules, ['admin', 'users', 'get'])).success).toBe(false);
+  });
+
+  it('should use the fallback rule when neither exact keys nor wildcards match', async () => {
+    const rules: IRules<TestContext> = { admin: { '*': allow } };
+
+    expect((await execute(rules, ['admin'], deny)).success).toBe(false);
+    expect((await execute(rules, ['other', 'stats'], deny)).success).toBe(false);
+  });
+});
+
+describe('shield pattern rules', () => {
+  it('should apply pattern rules across namespaces', async () => {
+    const rules: IRules<TestContext> = {
+      '*.delete': TestRules.isAdmin,
+      'posts.**': TestRules.isAuthenticated,
+      users: { list: allow },
+    };
+
+    const execute = async (path: Path, context: TestContext) => {
+      const executor = new MockMiddlewareExecutor<TestContext>();
+      executor.use(shield(rules, { fallbackRule: deny }));
+      return executor.execute({ context, path });
+    };
+
+    expect((await execute(TestPaths.users.delete, createAuthenticatedContext())).success).toBe(
+      false
+    );
+    expect((await execute(TestPaths.users.delete, createAdminContext())).success).toBe(true);
+    expect((await execute(TestPaths.posts.delete, createAuthenticatedContext())).success).toBe(
+      false
+    );
+    expect((await execute(TestPaths.posts.update, createAuthenticatedContext())).success).toBe(
+      true
+    );
+    expect((await execute(TestPaths.users.list, createTestContext())).success).toBe(true);
+  });
+
+  it('should reject invalid pattern keys when the shield is created', () => {
+    expect(() => shield({ 'users..list': allow })).toThrow('Invalid rule pattern');
+  });
+});
+
+describe('shield namespace guards', () => {
+  const rules: IRules<TestContext> = {
+    admin: {
+      $all: TestRules.isAuthenticated,
+      stats: TestRules.isAdmin,
+      users: allow,
+    },
+  };
+
+  const execute = async (path: Path, context: TestContext, fallbackRule = allow) => {
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(shield(rules, { fallbackRule }));
+    return executor.execute({ context, path });
+  };
+
+  it('should require both the guard and the leaf rule', async () => {
+    expect((await execute(TestPaths.admin.users, createTestContext())).success).toBe(false);
+    expect((await execute(TestPaths.admin.users, createAuthenticatedContext())).success).toBe(true);
+    expect((await execute(TestPaths.admin.stats, createAuthenticatedContext())).success).toBe(
+      false
+    );
+    expect((await execute(TestPaths.admin.stats, createAdminContext())).success).toBe(true);
+  });
+
+  it('should guard procedures resolved by the fallback rule', async () => {
+    const path = ['admin', 'settings'];
+
+    expect((await execute(path, createTestContext())).success).toBe(false);
+    expect((await execute(path, createAuthenticatedContext())).success).toBe(true);
+  });
+
+  it('should run the guard before the leaf rule', async () => {
+    const calls: string[] = [];
+    const guard = rule<TestContext>()(() => {
+      calls.push('guard');
+      return false;
+    });
+    const leaf = rule<TestContext>()(() => {
+      calls.push('leaf');
+      return true;
+    });
+
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(shield({ billing: { $all: guard, invoices: leaf } }));
+    const result = await executor.execute({
+      context: createTestContext(),
+      path: ['billing', 'invoices'],
+    });
+
+    expect(result.success).toBe(false);
+    expect(calls).toEqual(['guard']);
+  });
+
+  it('should log the combined rule in debug mode', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(
+      shieldDebug({
+        admin: { $all: rule<TestContext>('isAuthenticated')(() => true), stats: allow },
+      })
+    );
+
+    await executor.execute({ context: createTestContext(), path: TestPaths.admin.stats });
+
+    expect(log).toHaveBeenCalledWith(
+      '[oRPC Shield] Evaluating rule chain(isAuthenticated, allow) for admin.stats'
+    );
+    log.mockRestore();
+  });
+});
+
+describe('shield router checks', () => {
+  const procedure = os.handler(() => 'ok');
+  const router = { users: { list: procedure, profile: procedure }, admin: { stats: procedure } };
+
+  it('should throw when rules do not match the router', () => {
+    expect(() =>
+      shield({ users: { list: allow, proflie: allow }, admin: { stats: deny } }, { router })
+    ).toThrow(
+      'Rule tree does not match router (rules for unknown procedures: users.proflie; ' +
+        'procedures without rules: users.profile)'
+    );
+  });
+
+  it('should warn instead of throwing when configured', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const middleware = shield({ users: { '*': allow } }, { router, routerMismatch: 'warn' });
+
+    expect(typeof middleware).toBe('function');
+    expect(warn).toHaveBeenCalledWith(
+      '[oRPC Shield] Rule tree does not match router (procedures without rules: admin.stats)'
+    );
+    warn.mockRestore();
+  });
+
+  it('should accept rule trees matching the router', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(() =>
+      shield({ users: { '*': allow }, admin: { $all: deny } }, { router })
+    ).not.toThrow();
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('should return the report from assertRulesMatchRouter', () => {
+    const report = assertRulesMatchRouter({ '**': allow }, router);
+
+    expect(report).toEqual({
+      unknownRules: [],
+      unprotectedProcedures: [],
+      fallbackProcedures: [],
+      lazyRouters: [],
+    });
+  });
+});
+
+describe('typed rule trees', () => {
+  const router = {
+    posts: {
+      get: os.input(type<{ id: string }>()).handler(() => 'post'),
+      list: os.handler(() => []),
+    },
+    reports: lazy(() =>
+      Promise.resolve({ default: { daily: os.input(type<{ day: number }>()).handler(() => 1) } })
+    ),
+  };
+
+  it('should type each rule with its procedure input', async () => {
+    const canRead = rule<TestContext, { id: string }>()(({ input }) => input.id === 'public');
+    const rules: IRulesFor<typeof router, TestContext> = {
+      posts: { $all: allow, get: canRead },
+      reports: { daily: rule<TestContext, { day: number }>()(({ input }) => input.day > 0) },
+    };
+
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(shield(rules, { router }));
+    const result = await executor.execute({
+      context: createTestContext(),
+      path: ['posts', 'get'],
+      input: { id: 'public' },
+    });
+
+    expect(result.success).toBe(true);
+    expectTypeOf<InferProcedureInput<typeof router.posts.get>>().toEqualTypeOf<{ id: string }>();
+  });
+
+  it('should reject unknown keys and mismatched inputs at compile time', () => {
+    const wrongInput = rule<TestContext, { id: number }>()(() => true);
+
+    const rules: IRulesFor<typeof router, TestContext>[] = [
+      // @ts-expect-error - misspelled procedure key
+      { posts: { gte: allow } },
+      // @ts-expect-error - rule input does not match the procedure input
+      { posts: { get: wrongInput } },
+      // @ts-expect-error - procedures inside lazy routers are checked too
+      { reports: { weekly: allow } },
+    ];
+
+    expect(rules).toHaveLength(3);
+  });
+});
+
+describe('shield secure by default', () => {
+  const procedure = os.handler(() => 'ok');
+  const router = { users: { list: procedure, delete: procedure }, admin: { stats: procedure } };
+
+  it('should deny procedures without a rule', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(shield({ users: { list: allow } }, { secureByDefault: true }));
+
+    const listed = await executor.execute({
+      context: createTestContext(),
+      path: TestPaths.users.list,
+    });
+    const unlisted = await executor.execute({
+      context: createTestContext(),
+      path: TestPaths.users.delete,
+    });
+
+    expect(listed.success).toBe(true);
+    expect(unlisted.error).toBeInstanceOf(ShieldError);
+    warn.mockRestore();
+  });
+
+  it('should log each path hitting the fallback once', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(shield({ users: { list: allow } }, { secureByDefault: true }));
+
+    for (const path of [TestPaths.users.delete, TestPaths.users.delete, TestPaths.users.list]) {
+      await executor.execute({ context: createTestContext(), path });
+    }
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(
+      '[oRPC Shield] No rule found for users.delete, using fallback rule deny'
+    );
+    warn.mockRestore();
+  });
+
+  it('should keep an explicit fallback rule', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(shield({}, { secureByDefault: true, fallbackRule: TestRules.isAuthenticated }));
+
+    const result = await executor.execute({
+      context: createAuthenticatedContext(),
+      path: TestPaths.users.list,
+    });
+
+    expect(result.success).toBe(true);
+    expect(warn).toHaveBeenCalledWith(
+      '[oRPC Shield] No rule found for users.list, using fallback rule anonymous'
+    );
+    warn.mockRestore();
+  });
+
+  it('should report procedures relying on the fallback at startup', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    shield({ users: { list: allow } }, { secureByDefault: true, router });
+
+    expect(warn).toHaveBeenCalledWith(
+      '[oRPC Shield] Procedures relying on fallback rule deny: users.delete, admin.stats'
+    );
+    warn.mockRestore();
+  });
+
+  it('should report procedures covered only by guards as relying on the fallback', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    shield(
+      { users: { list: allow }, admin: { $all: TestRules.isAuthenticated } },
+      { secureByDefault: true, router }
+    );
+
+    expect(warn).toHaveBeenCalledWith(
+      '[oRPC Shield] Procedures relying on fallback rule deny: users.delete, admin.stats'
+    );
+    warn.mockRestore();
+  });
+
+  it('should still reject rules for unknown procedures', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(() =>
+      shield({ users: { list: allow, lsit: allow } }, { secureByDefault: true, router })
+    ).toThrow('Rule tree does not match router (rules for unknown procedures: users.lsit)');
+    warn.mockRestore();
+  });
+});
+
+describe('shield namespace fallbacks', () => {
+  const rules: IRules<TestContext> = {
+    public: { $fallback: allow, admin: TestRules.isAdmin },
+    internal: { $fallback: deny, health: allow },
+  };
+
+  const execute = async (path: Path, options = {}) => {
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(shield(rules, options));
+    return executor.execute({ context: createTestContext(), path });
+  };
+
+  it('should apply the fallback of the enclosing namespace', async () => {
+    expect((await execute(['public', 'status'], { fallbackRule: deny })).success).toBe(true);
+    expect((await execute(['internal', 'metrics'])).success).toBe(false);
+    expect((await execute(['internal', 'health'])).success).toBe(true);
+    expect((await execute(['public', 'admin'])).success).toBe(false);
+  });
+
+  it('should use the global fallback outside namespaces with a fallback', async () => {
+    expect((await execute(TestPaths.users.list)).success).toBe(true);
+    expect((await execute(TestPaths.users.list, { fallbackRule: deny })).success).toBe(false);
+  });
+
+  it('should not report namespace fallbacks in secure-by-default mode', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const procedure = os.handler(() => 'ok');
+    const router = {
+      public: { status: procedure, admin: procedure },
+      internal: { metrics: procedure, health: procedure },
+      users: { list: procedure },
+    };
+
+    await execute(['public', 'status'], { secureByDefault: true, router });
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(
+      '[oRPC Shield] Procedures relying on fallback rule deny: users.list'
+    );
+    warn.mockRestore();
+  });
+});
+
+describe('shield output rules', () => {
+  const isOwnerOfResult = rule<TestContext>({ cache: 'no_cache' })(
+    ({ ctx, output }) => (output as { ownerId: string }).ownerId === ctx.user?.id
+  );
+
+  const execute = (
+    path: Path,
+    options: Parameters<typeof shield<TestContext>>[1],
+    handler: () => unknown = () => ({ output: { ownerId: '1' }, context: {} })
+  ) => {
+    const middleware = shield<TestContext>({ users: { get: allow, list: allow } }, options);
+    const next = vi.fn(handler);
+    const result = middleware(
+      { context: createAuthenticatedContext(), path, next } as any,
+      {},
+      (output: unknown) => ({ output, context: {} })
+    );
+    return { result, next };
+  };
+
+  it('should evaluate output rules with the handler result', async () => {
+    const { result } = execute(TestPaths.users.get, {
+      output: { users: { get: isOwnerOfResult } },
+    });
+
+    expect((await result).output).toEqual({ ownerId: '1' });
+  });
+
+  it('should deny after the handler when the output rule fails', async () => {
+    const { result, next } = execute(
+      TestPaths.users.get,
+      { output: { users: { get: isOwnerOfResult } }, denyErrorCode: 'FORBIDDEN' },
+      () => ({ output: { ownerId: '2' }, context: {} })
+    );
+
+    await expect(result).rejects.toThrow(ORPCError);
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it('should apply namespace guards and fallbacks of the output tree', async () => {
+    const { result } = execute(TestPaths.users.list, {
+      output: { users: { $fallback: isOwnerOfResult, $all: deny } },
+    });
+
+    await expect(result).rejects.toThrow(ShieldError);
+  });
+
+  it('should not check procedures without an output rule', async () => {
+    const { result } = execute(TestPaths.users.list, {
+      output: { users: { get: deny } },
+      fallbackRule: allow,
+    });
+
+    expect((await result).output).toEqual({ ownerId: '1' });
+  });
+
+  it('should pass handler errors through unchanged', async () => {
+    const failure = new Error('database unavailable');
+    const { result } = execute(
+      TestPaths.users.get,
+      { output: { users: { get: isOwnerOfResult } }, denyErrorCode: 'FORBIDDEN' },
+      () => Promise.reject(failure)
+    );
+
+    await expect(result).rejects.toBe(failure);
+  });
+
+  it('should report output rules for unknown procedures', () => {
+    const procedure = os.handler(() => 'ok');
+    const router = { users: { get: procedure, list: procedure } };
+
+    expect(() =>
+      shield({ '**': allow }, { router, output: { users: { gte: isOwnerOfResult } } })
+    ).toThrow('Rule tree does not match router (rules for unknown procedures: users.gte)');
+  });
+});
+
+describe('shield list filters', () => {
+  interface Post {
+    id: number;
+    authorId: string;
+    draft: boolean;
+  }
+
+  const posts: Post[] = [
+    { id: 1, authorId: '1', draft: false },
+    { id: 2, authorId: '2', draft: true },
+    { id: 3, authorId: '1', draft: true },
+    { id: 4, authorId: '2', draft: false },
+  ];
+
+  const canSeePost = rule<TestContext>({ cache: 'no_cache' })(({ ctx, item }) => {
+    const post = item as Post;
+    return !post.draft || post.authorId === ctx.user?.id;
+  });
+
+  const execute = (options: Parameters<typeof shield<TestContext>>[1], output: unknown = posts) =>
+    shield<TestContext>({ posts: { list: allow, get: allow } }, options)(
+      {
+        context: createAuthenticatedContext(),
+        path: ['posts', 'list'],
+        next: () => ({ output, context: {} }),
+      } as any,
+      {},
+      (value: unknown) => ({ output: value, context: {} })
+    );
+
+  it('should drop items denied by the filter rule', async () => {
+    const result = await execute({ filter: { posts: { list: canSeePost } } });
+
+    expect(result.output).toEqual([posts[0], posts[2], posts[3]]);
+  });
+
+  it('should deny the whole call in deny mode', async () => {
+    await expect(
+      execute({ filter: { posts: { list: canSeePost } }, filterMode: 'deny' })
+    ).rejects.toThrow(ShieldError);
+  });
+
+  it('should check items in batches', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const slowRule = rule<TestContext>({ cache: 'no_cache' })(async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      running--;
+      return true;
+    });
+
+    const result = await execute({ filter: { posts: { list: slowRule } }, filterBatchSize: 2 });
+
+    expect(result.output).toBe(posts);
+    expect(maxRunning).toBe(2);
+  });
+
+  it('should check non-array outputs as a single item', async () => {
+    await expect(execute({ filter: { posts: { list: canSeePost } } }, posts[1])).rejects.toThrow(
+      ShieldError
+    );
+    expect((await execute({ filter: { posts: { list: canSeePost } } }, posts[0])).output).toBe(
+      posts[0]
+    );
+  });
+
+  it('should run output rules on the filtered items', async () => {
+    const noDrafts = rule<TestContext>({ cache: 'no_cache' })(({ output }) =>
+      (output as Post[]).every((post) => !post.draft)
+    );
+
+    await expect(
+      execute({ filter: { posts: { list: canSeePost } }, output: { posts: { list: noDrafts } } })
+    ).rejects.toThrow(ShieldError);
+    expect(
+      (
+        await execute({
+          filter: { 'posts.*': rule<TestContext>()(({ item }) => !(item as Post).draft) },
+          output: { posts: { list: noDrafts } },
+        })
+      ).output
+    ).toEqual([posts[0], posts[3]]);
+  });
+
+  it('should reject invalid batch sizes', () => {
+    expect(() => shield({}, { filter: {}, filterBatchSize: 0 })).toThrow(
+      'Invalid filterBatchSize: 0'
+    );
+    expect(() => shield({}, { filter: {}, filterBatchSize: NaN })).toThrow(
+      'Invalid filterBatchSize: NaN'
+    );
+    expect(() => shield({}, { filter: {}, filterBatchSize: 2.5 })).toThrow(
+      'Invalid filterBatchSize: 2.5'
+    );
+  });
+});
+
+describe('shield lifecycle hooks', () => {
+  const execute = async (path: Path, options: Parameters<typeof shield<TestContext>>[1]) => {
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(
+      shield({ users: { list: allow, delete: denyWithMessage('Admins only') } }, options)
+    );
+    return executor.execute({ context: createTestContext(), path, input: { id: '1' } });
+  };
+
+  it('should report allowed and denied decisions', async () => {
+    const onAllowed = vi.fn();
+    const onDenied = vi.fn();
+
+    await execute(TestPaths.users.list, { onAllowed, onDenied, awaitHooks: true });
+    await execute(TestPaths.users.delete, { onAllowed, onDenied, awaitHooks: true });
+
+    expect(onAllowed).toHaveBeenCalledTimes(1);
+    expect(onAllowed).toHaveBeenCalledWith({
+      ctx: createTestContext(),
+      path: TestPaths.users.list,
+      input: { id: '1' },
+      phase: 'input',
+      rule: allow,
+      result: true,
+      durationMs: expect.any(Number),
+    });
+    expect(onDenied).toHaveBeenCalledTimes(1);
+    expect(onDenied.mock.calls[0][0].result).toEqual(new Error('Admins only'));
+  });
+
+  it('should report rules that throw as errors rather than denials', async () => {
+    const onError = vi.fn();
+    const onDenied = vi.fn();
+    const failing = rule<TestContext>({ name: 'failing' })(() => {
+      throw new Error('database unavailable');
+    });
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(shield({ users: { list: failing } }, { onError, onDenied, awaitHooks: true }));
+
+    const result = await executor.execute({
+      context: createTestContext(),
+      path: TestPaths.users.list,
+    });
+
+    expect(result.success).toBe(false);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ rule: failing, result: new Error('database unavailable') })
+    );
+    expect(onDenied).not.toHaveBeenCalled();
+  });
+
+  it('should not wait for hooks by default', async () => {
+    let finished = false;
+    const onAllowed = async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      finished = true;
+    };
+
+    await execute(TestPaths.users.list, { onAllowed });
+    expect(finished).toBe(false);
+
+    await execute(TestPaths.users.list, { onAllowed, awaitHooks: true });
+    expect(finished).toBe(true);
+  });
+
+  it('should log hook failures without changing the decision', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const onAllowed = () => Promise.reject(new Error('analytics down'));
+
+    const result = await execute(TestPaths.users.list, { onAllowed, awaitHooks: true });
+
+    expect(result.success).toBe(true);
+    expect(error).toHaveBeenCalledWith(
+      '[oRPC Shield] onAllowed hook failed for users.list:',
+      new Error('analytics down')
+    );
+    error.mockRestore();
+  });
+});
+
+describe('shield logger', () => {
+  const createLogger = () => ({ debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() });
+
+  it('should send structured debug entries to the logger', async () => {
+    const logger = createLogger();
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(
+      shield(
+        { users: { list: allow } },
+        { debug: true, logger, logInput: true, redact: ['password'] }
+      )
+    );
+
+    await executor.execute({
+      context: createTestContext(),
+      path: TestPaths.users.list,
+      input: { name: 'Ada', password: 'secret' },
+    });
+
+    expect(logger.debug).toHaveBeenCalledWith(
+      {
+        path: 'users.list',
+        rule: 'allow',
+        result: 'true',
+        allowed: true,
+        durationMs: expect.any(Number),
+        input: { name: 'Ada', password: '[REDACTED]' },
+      },
+      'Rule result for users.list: true'
+    );
+    expect(log).not.toHaveBeenCalled();
+    log.mockRestore();
+  });
+
+  it('should leave the input out of log entries by default', async () => {
+    const logger = createLogger();
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(shield({ users: { list: allow } }, { debug: true, logger }));
+
+    await executor.execute({
+      context: createTestContext(),
+      path: TestPaths.users.list,
+      input: { password: 'secret' },
+    });
+
+    expect(logger.debug).toHaveBeenCalledWith(
+      { path: 'users.list' },
+      'Processing path: users.list'
+    );
+    for (const [fields] of logger.debug.mock.calls) {
+      expect(fields).not.toHaveProperty('input');
+    }
+  });
+
+  it('should only send debug entries in debug mode', async () => {
+    const logger = createLogger();
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(shield({ users: { list: allow } }, { logger }));
+
+    await executor.execute({ context: createTestContext(), path: TestPaths.users.list });
+
+    expect(logger.debug).not.toHaveBeenCalled();
+  });
+
+  it('should send warnings to the logger', () => {
+    const logger = createLogger();
+    const procedure = os.handler(() => 'ok');
+
+    shield(
+      { users: { list: allow } },
+      { router: { users: { list: procedure, get: procedure } }, routerMismatch: 'warn', logger }
+    );
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      { unknownRules: [], unprotectedProcedures: ['users.get'] },
+      'Rule tree does not match router (procedures without rules: users.get)'
+    );
+  });
+});
+
+describe('shield tracing', () => {
+  const isAuthenticated = rule<TestContext>('isAuthenticated')(({ ctx }) => ctx.isAuthenticated);
+  const isAdmin = rule<TestContext>('isAdmin')(({ ctx }) => ctx.user?.role === 'admin');
+
+  const execute = async (context: TestContext, path: Path, options = {}) => {
+    const tracer = createTestTracer();
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(
+      shield(
+        { users: { delete: and(isAuthenticated, isAdmin), list: TestRules.throwsError } },
+        { tracer, ...options }
+      )
+    );
+    const result = await executor.execute({ context, path });
+    return { result, spans: tracer.spans };
+  };
+
+  it('should emit a span for the check, each operator and each rule', async () => {
+    const { spans } = await execute(createAdminContext(), TestPaths.users.delete);
+
+    expect(spans.map(({ name, parent }) => [name, parent])).toEqual([
+      ['shield input', undefined],
+      ['rule and', 'shield input'],
+      ['rule isAuthenticated', 'rule and'],
+      ['rule isAdmin', 'rule and'],
+    ]);
+    expect(spans.every((span) => span.ended)).toBe(true);
+    expect(spans[0].attributes).toEqual({
+      'shield.rule': 'and(isAuthenticated, isAdmin)',
+      'shield.path': 'users.delete',
+      'shield.allowed': true,
+    });
+  });
+
+  it('should record denials on the spans', async () => {
+    const { spans } = await execute(createAuthenticatedContext(), TestPaths.users.delete);
+
+    expect(spans.find((span) => span.name === 'rule isAdmin')?.attributes).toMatchObject({
+      'shield.allowed': false,
+      'shield.reason': 'Access denied',
+    });
+    expect(spans.every((span) => span.status === undefined)).toBe(true);
+  });
+
+  it('should mark spans of failing rules as errors', async () => {
+    const { spans } = await execute(createTestContext(), TestPaths.users.list);
+
+    expect(spans[0].status).toEqual({ code: 2, message: 'Test error from rule' });
+    expect(spans[0].exceptions).toEqual([new Error('Test error from rule')]);
+  });
+
+  it('should not trace without a tracer', async () => {
+    const resolve = vi.spyOn(isAdmin, 'resolve');
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(shield({ users: { delete: isAdmin } }));
+
+    await executor.execute({ context: createAdminContext(), path: TestPaths.users.delete });
+
+    expect(resolve.mock.calls[0][0].tracer).toBeUndefined();
+    resolve.mockRestore();
+  });
+});
+
+describe('shield metrics', () => {
+  const isAdmin = rule<TestContext>('isAdmin')(({ ctx }) => ctx.user?.role === 'admin');
+  const fails = rule<TestContext>('fails')(() => {
+    throw new Error('Rule failed');
+  });
+
+  it('should count decisions and time each rule per procedure', async () => {
+    const metrics = createMetricsRegistry();
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(shield({ users: { delete: isAdmin, list: fails } }, { metrics }));
+
+    await executor.execute({ context: createAdminContext(), path: TestPaths.users.delete });
+    await executor.execute({ context: createTestContext(), path: TestPaths.users.delete });
+    await executor.execute({ context: createTestContext(), path: TestPaths.users.delete });
+    await executor.execute({ context: createTestContext(), path: TestPaths.users.list });
+
+    const { decisions, durations } = metrics.snapshot();
+    expect(decisions).toEqual([
+      { path: 'users.delete', rule: 'isAdmin', phase: 'input', decision: 'allowed', count: 1 },
+      { path: 'users.delete', rule: 'isAdmin', phase: 'input', decision: 'denied', count: 2 },
+      { path: 'users.list', rule: 'fails', phase: 'input', decision: 'error', count: 1 },
+    ]);
+    expect(durations.map(({ path, count }) => [path, count])).toEqual([
+      ['users.delete', 3],
+      ['users.list', 1],
+    ]);
+  });
+
+  it('should count failures wrapped by operators as errors', async () => {
+    const metrics = createMetricsRegistry();
+    const executor = new MockMiddlewareExecutor<TestContext>();
+    executor.use(
+      shield(
+        {
+          users: {
+            list: or({ aggregate: true }, isAdmin, fails),
+            get: and({ message: 'Lookup failed' }, fails),
+            create: requiresAuth(fails),
+          },
+        },
+        { metrics }
+      )
+    );
+
+    for (const path of [TestPaths.users.list, TestPaths.users.get, TestPaths.users.create]) {
+      await executor.execute({ context: createTestContext(), path });
+    }
+
+    expect(metrics.snapshot().decisions.map(({ path, decision }) => [path, decision])).toEqual([
+      ['users.list', 'error'],
+      ['users.get', 'error'],
+      ['users.create', 'error'],
+    ]);
+  });
+
+  it('should count filtered list items apart from the procedure decision', async () => {
+    const metrics = createMetricsRegistry();
+    const onDenied = vi.fn();
+    const published = rule<TestContext>({ name: 'published', cache: 'no_cache' })(
+      ({ item }) => !(item as { draft: boolean }).draft
+    );
+    const output = [{ draft: false }, { draft: true }, { draft: true }];
+
+    const result = await shield<TestContext>(
+      { posts: { list: allow } },
+      { metrics, onDenied, awaitHooks: true, filter: { posts: { list: published } } }
+    )(
+      {
+        context: createTestContext(),
+        path: ['posts', 'list'],
+        next: () => ({ output, context: {} }),
+      } as any,
+      {},
+      (value: unknown) => ({ output: value, context: {} })
+    );
+
+    expect(result.output).toEqual([{ draft: false }]);
+    expect(
+      metrics.snapshot().decisions.map(({ phase, decision, count }) => [phase, decision, count])
+    ).toEqual([
+      ['input', 'allowed', 1],
+      ['filter', 'allowed', 1],
+      ['filter', 'denied', 2],
+    ]);
+    expect(onDenied.mock.calls.map(([event]) => (event as ShieldHookEvent).phase)).toEqual([
+      'filter',
+      'filter',
+    ]);
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Tests for rule tree compilation and pattern matching
+ */
+import { describe, expect, it } from 'vitest';
+import {
+  compileRuleTree,
+  compileRules,
+  findFallbackInTree,
+  findGuardsInTree,
+  findRuleInTree,
+} from '../src/tree.js';
+import { rule } from '../src/rule.js';
+import type { IRules } from '../src/types.js';
+
+const named = (name: string) => rule(name)(() => true);
+
+const find = (rules: IRules, path: string) =>
+  findRuleInTree(compileRuleTree(rules), path.split('.'))?.name ?? null;
+
+describe('compileRuleTree', () => {
+  it('should flatten nested rules in declaration order', () => {
+    const { entries } = compileRuleTree({
+      users: { list: named('a'), 'profile.*': named('b') },
+      '*.delete': named('c'),
+    });
+
+    expect(entries.map((entry) => [entry.pattern, entry.order])).toEqual([
+      ['users.list', 0],
+      ['users.profile.*', 1],
+      ['*.delete', 2],
+    ]);
+  });
+
+  it('should reject invalid patterns', () => {
+    expect(() => compileRuleTree({ 'users..list': named('a') })).toThrow(
+      'Invalid rule pattern at path users..list'
+    );
+    expect(() => compileRuleTree({ '/[/': named('a') })).toThrow(
+      'Invalid rule pattern at path /[/'
+    );
+  });
+
+  it('should reject nested and dotted keys declaring the same pattern', () => {
+    expect(() =>
+      compileRuleTree({ users: { delete: named('a') }, 'users.delete': named('b') })
+    ).toThrow('Duplicate rule pattern users.delete');
+    expect(() => compileRuleTree({ 'users.*': named('a'), users: { '*': named('b') } })).toThrow(
+      'Duplicate rule pattern users.*'
+    );
+  });
+
+  it('should require regex keys to map to rules', () => {
+    expect(() => compileRuleTree({ '/^v\\d+$/': { users: named('a') } })).toThrow(
+      'Regex keys must map to a rule'
+    );
+  });
+});
+
+describe('findRuleInTree', () => {
+  it('should match dotted keys like nested keys', () => {
+    const rules = { 'users.list': named('dotted'), posts: { list: named('nested') } };
+
+    expect(find(rules, 'users.list')).toBe('dotted');
+    expect(find(rules, 'posts.list')).toBe('nested');
+    expect(find(rules, 'users.get')).toBeNull();
+  });
+
+  it('should match any procedure below a globstar', () => {
+    const rules = { 'users.**': named('users') };
+
+    expect(find(rules, 'users.list')).toBe('users');
+    expect(find(rules, 'users.profile.settings.update')).toBe('users');
+    expect(find(rules, 'posts.list')).toBeNull();
+  });
+
+  it('should match globstars in the middle of a pattern', () => {
+    const rules = { '**.delete': named('delete') };
+
+    expect(find(rules, 'delete')).toBe('delete');
+    expect(find(rules, 'api.v1.users.delete')).toBe('delete');
+    expect(find(rules, 'api.v1.users.deleteAll')).toBeNull();
+  });
+
+  it('should test regex keys against the rest of the path', () => {
+    const rules = { api: { '/^v\\d+\\.users\\./i': named('versioned') } };
+
+    expect(find(rules, 'api.v2.users.list')).toBe('versioned');
+    expect(find(rules, 'api.V10.users.get')).toBe('versioned');
+    expect(find(rules, 'api.beta.users.list')).toBeNull();
+    expect(find(rules, 'v2.users.list')).toBeNull();
+  });
+
+  it('should give the same answer for repeated lookups with global regex flags', () => {
+    const tree = compileRuleTree({ '/users/g': named('users') });
+
+    expect(findRuleInTree(tree, ['users'])?.name).toBe('users');
+    expect(findRuleInTree(tree, ['users'])?.name).toBe('users');
+  });
+
+  describe('precedence', () => {
+    const rules = {
+      '/.*/': named('regex'),
+      '**': named('globstar'),
+      '*.delete': named('anyDelete'),
+      'users.**': named('usersGlobstar'),
+      users: { '*': named('usersWildcard'), delete: named('usersDelete') },
+      '*.*.delete': named('nestedDelete'),
+    };
+
+    it('should prefer the pattern with the most literal segments', () => {
+      expect(find(rules, 'users.delete')).toBe('usersDelete');
+      expect(find(rules, 'posts.comments.delete')).toBe('nestedDelete');
+    });
+
+    it('should prefer patterns matching a fixed number of segments', () => {
+      const mixed = { 'users.**': named('globstar'), '*.delete': named('delete') };
+
+      expect(find(mixed, 'users.delete')).toBe('delete');
+      expect(find(rules, 'users.list')).toBe('usersWildcard');
+    });
+
+    it('should prefer a more specific matcher at the first difference', () => {
+      const wildcards = { '*.list': named('anyList'), 'users.*': named('users') };
+
+      expect(find(wildcards, 'users.list')).toBe('users');
+      expect(find(rules, 'users.profile.get')).toBe('usersGlobstar');
+      expect(find(rules, 'posts.delete')).toBe('anyDelete');
+    });
+
+    it('should prefer globstars over regex keys', () => {
+      expect(find(rules, 'posts.list')).toBe('globstar');
+      expect(find({ '/.*/': named('regex') }, 'posts.list')).toBe('regex');
+    });
+
+    it('should break ties by declaration order', () => {
+      const tied = { '/list$/': named('first'), '/^posts/': named('second') };
+
+      expect(find(tied, 'posts.list')).toBe('first');
+    });
+  });
+});
+
+describe('findGuardsInTree', () => {
+  const guards = (rules: IRules, path: string) =>
+    findGuardsInTree(compileRuleTree(rules), path.split('.')).map((guard) => guard.name);
+
+  it('should return the guards of every enclosing namespace, outermost first', () => {
+    const rules = {
+      billing: {
+        invoices: { $all: named('isAccountant'), list: named('list') },
+        $all: named('isAuthenticated'),
+      },
+      $all: named('notBanned'),
+    };
+
+    expect(guards(rules, 'billing.invoices.list')).toEqual([
+      'notBanned',
+      'isAuthenticated',
+      'isAccountant',
+    ]);
+    expect(guards(rules, 'billing.plans.get')).toEqual(['notBanned', 'isAuthenticated']);
+    expect(guards(rules, 'users.list')).toEqual(['notBanned']);
+  });
+
+  it('should match guards below pattern namespaces', () => {
+    expect(guards({ '*': { $all: named('guard') } }, 'users.list')).toEqual(['guard']);
+    expect(guards({ '*': { $all: named('guard') } }, 'list')).toEqual([]);
+  });
+
+  it('should not treat guards as leaf rules', () => {
+    expect(find({ billing: { $all: named('guard') } }, 'billing.$all')).toBeNull();
+  });
+
+  it('should require guards to be rules', () => {
+    expect(() => compileRuleTree({ billing: { $all: { list: named('a') } } })).toThrow(
+      'Namespace guards must be rules'
+    );
+  });
+});
+
+describe('findFallbackInTree', () => {
+  const fallback = (rules: IRules, path: string) =>
+    findFallbackInTree(compileRuleTree(rules), path.split('.'))?.name ?? null;
+
+  const rules = {
+    $fallback: named('root'),
+    public: { $fallback: named('public'), docs: { $fallback: named('docs') } },
+    '*': { admin: { $fallback: named('anyAdmin') } },
+    internal: { admin: { $fallback: named('internalAdmin') } },
+  };
+
+  it('should use the fallback of the nearest namespace', () => {
+    expect(fallback(rules, 'public.status')).toBe('public');
+    expect(fallback(rules, 'public.docs.get')).toBe('docs');
+    expect(fallback(rules, 'users.list')).toBe('root');
+  });
+
+  it('should prefer the more specific of namespaces at the same depth', () => {
+    expect(fallback(rules, 'internal.admin.stats')).toBe('internalAdmin');
+    expect(fallback(rules, 'billing.admin.stats')).toBe('anyAdmin');
+  });
+
+  it('should return null without an enclosing fallback', () => {
+    expect(fallback({ public: { $fallback: named('public') } }, 'users.list')).toBeNull();
+  });
+
+  it('should require fallbacks to be rules', () => {
+    expect(() => compileRuleTree({ public: { $fallback: {} } })).toThrow(
+      'Namespace fallbacks must be rules'
+    );
+  });
+});
+
+describe('compileRules', () => {
+  const isAuthenticated = named('isAuthenticated');
+  const rules = {
+    users: { list: named('list'), get: named('get') },
+    '*.delete': named('anyDelete'),
+    billing: { $all: isAuthenticated, invoices: named('invoices') },
+  };
+
+  it('should resolve every exact path upfront', () => {
+    const compiled = compileRules(rules);
+
+    expect([...compiled.table.keys()]).toEqual(['users.list', 'users.get', 'billing.invoices']);
+    expect(compiled.table.get('billing.invoices')).toEqual({
+      rule: rules.billing.invoices,
+      pattern: 'billing.invoices',
+      guards: [isAuthenticated],
+      fallback: null,
+    });
+  });
+
+  it('should memoize pattern and fallback resolutions', () => {
+    const compiled = compileRules(rules);
+
+    const resolved = compiled.resolve(['posts', 'delete']);
+    const missing = compiled.resolve(['billing', 'plans']);
+
+    expect(resolved).toEqual({
+      rule: rules['*.delete'],
+      pattern: '*.delete',
+      guards: [],
+      fallback: null,
+    });
+    expect(missing).toEqual({
+      rule: null,
+      pattern: null,
+      guards: [isAuthenticated],
+      fallback: null,
+    });
+    expect(compiled.table.get('posts.delete')).toBe(resolved);
+    expect(compiled.resolve(['posts', 'delete'])).toBe(resolved);
+    expect(compiled.resolve(['billing', 'plans'])).toBe(missing);
+  });
+
+  it('should return the same resolution for exact paths on every lookup', () => {
+    const compiled = compileRules(rules);
+
+    expect(compiled.resolve(['users', 'list'])).toBe(compiled.table.get('users.list'));
+  });
+});